@@ -3,14 +3,34 @@
  * HTTP client for communicating with the Quarri backend
  */
 
+import { randomUUID } from 'crypto';
+
+import { NDJSON_CONTENT_TYPE, capRows, readNdjsonRows } from './result-stream.js';
+
 const DEFAULT_API_URL = 'https://app.quarri.ai';
-const DEFAULT_TIMEOUT = 60000; // 60 seconds for most operations
-const LONG_TIMEOUT = 180000; // 3 minutes for analysis pipelines
+export const DEFAULT_TIMEOUT = 60000; // 60 seconds for most operations
+export const LONG_TIMEOUT = 180000; // 3 minutes for analysis pipelines
+
+// Retry settings (overridable via QUARRI_MAX_RETRIES / QUARRI_RETRY_BASE_DELAY_MS)
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY = 500; // doubled on each attempt
+const MAX_RETRY_DELAY = 30000; // longer Retry-After values are not waited out
+const CANCEL_TIMEOUT = 5000;
+const JOB_STATUS_TIMEOUT = 10000;
+const PROGRESS_POLL_INTERVAL = 2000; // first poll after this, so quick calls never poll
+
+// Statuses that are safe to retry for idempotent requests
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+// Statuses where the server rejected the request before doing any work
+const REJECTED_STATUSES = new Set([429, 503]);
 
 interface ApiResponse<T = unknown> {
   success: boolean;
   error?: string;
   data?: T;
+  status?: number;
+  timedOut?: boolean;
+  cancelled?: boolean;
 }
 
 interface AuthResponse {
@@ -56,12 +76,126 @@ interface ToolResult {
   [key: string]: unknown;
 }
 
+export interface JobStatus {
+  status: string; // e.g. running, completed, failed
+  stage?: string;
+  message?: string;
+  progress?: number;
+  total?: number;
+  [key: string]: unknown;
+}
+
+const FINISHED_JOB_STATUSES = new Set(['completed', 'succeeded', 'failed', 'error', 'cancelled']);
+
+/**
+ * Whether a job status is final
+ */
+export function isJobFinished(status: string): boolean {
+  return FINISHED_JOB_STATUSES.has(status.toLowerCase());
+}
+
+export interface ConversationContext {
+  conversation_id: string;
+  user_message?: string;
+}
+
+interface RequestOptions {
+  timeout?: number;
+  headers?: Record<string, string>;
+  // Retry on network errors, timeouts and 5xx (defaults to true for GET)
+  idempotent?: boolean;
+  // Aborts the request (and any pending retry) when the caller cancels
+  signal?: AbortSignal;
+  // Accept streamed NDJSON rows and keep at most this many
+  maxRows?: number;
+}
+
+export interface ToolCallOptions {
+  // Read-only tools are retried like GETs; others carry an idempotency key
+  readOnly?: boolean;
+  // Request timeout in ms (defaults to DEFAULT_TIMEOUT)
+  timeout?: number;
+  // Cancellation signal from the MCP request
+  signal?: AbortSignal;
+  // Called with backend job status while the call is running
+  onProgress?: (status: JobStatus) => void;
+  // Ask the backend to start a job and return its handle immediately
+  async?: boolean;
+  // Row cap for query results (see result-stream.ts)
+  maxRows?: number;
+}
+
+export interface WaitForJobOptions {
+  timeout: number;
+  signal?: AbortSignal;
+  onProgress?: (status: JobStatus) => void;
+}
+
+interface AttemptResult<T> {
+  response: ApiResponse<T>;
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+/**
+ * Read a non-negative integer from the environment
+ */
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Explain a tool call timeout, including whether the work may still be running
+ */
+function describeToolTimeout(toolName: string, options: ToolCallOptions): string {
+  const seconds = (options.timeout ?? DEFAULT_TIMEOUT) / 1000;
+  if (options.readOnly) {
+    return `${toolName} timed out after ${seconds}s. It is read-only, so nothing was changed; retry, or narrow the request (fewer rows, tighter filters).`;
+  }
+  return `${toolName} timed out after ${seconds}s waiting for the server. The operation may still be running server-side and could complete; check its result (e.g. list or get the affected objects) before calling it again.`;
+}
+
+/**
+ * Wait for a delay, resolving early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
 export class QuarriApiClient {
   private baseUrl: string;
   private token: string | null = null;
+  private maxRetries: number;
+  private retryBaseDelay: number;
 
   constructor(baseUrl?: string) {
     this.baseUrl = baseUrl || process.env.QUARRI_API_URL || DEFAULT_API_URL;
+    this.maxRetries = envInt('QUARRI_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+    this.retryBaseDelay = envInt('QUARRI_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_BASE_DELAY);
   }
 
   /**
@@ -72,27 +206,78 @@ export class QuarriApiClient {
   }
 
   /**
-   * Make an HTTP request to the API with timeout support
+   * Make an HTTP request to the API with timeout and retry support.
+   * Idempotent requests are retried on network errors, timeouts, 429 and 5xx;
+   * others only when the server rejected them outright (429/503).
    */
   private async request<T>(
     method: string,
     path: string,
     body?: unknown,
     useAuth = true,
-    timeout = DEFAULT_TIMEOUT
+    options: RequestOptions = {}
   ): Promise<ApiResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.attemptRequest<T>(method, path, body, useAuth, options);
+      if (result.response.success || !result.retryable || attempt >= this.maxRetries) {
+        return result.response;
+      }
+
+      // Exponential backoff with full jitter, unless the server says how long to wait
+      const delay = result.retryAfterMs
+        ?? Math.random() * Math.min(MAX_RETRY_DELAY, this.retryBaseDelay * 2 ** attempt);
+      if (delay > MAX_RETRY_DELAY) {
+        return result.response;
+      }
+
+      console.error(
+        `${method} ${path} failed (${result.response.error}), retrying in ${Math.round(delay)}ms ` +
+        `(attempt ${attempt + 2}/${this.maxRetries + 1})`
+      );
+      await sleep(delay, options.signal);
+      if (options.signal?.aborted) {
+        return { success: false, error: 'CANCELLED', cancelled: true };
+      }
+    }
+  }
+
+  /**
+   * Make a single HTTP attempt and classify the outcome for retrying
+   */
+  private async attemptRequest<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    useAuth: boolean,
+    options: RequestOptions
+  ): Promise<AttemptResult<T>> {
     const url = `${this.baseUrl}${path}`;
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    const idempotent = options.idempotent ?? method === 'GET';
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      ...options.headers,
     };
 
     if (useAuth && this.token) {
       headers['Authorization'] = `Bearer ${this.token}`;
     }
+    if (options.maxRows !== undefined) {
+      headers['Accept'] = `${NDJSON_CONTENT_TYPE}, application/json`;
+    }
 
-    // Create abort controller for timeout
+    // Create abort controller for timeout and caller cancellation
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onCancel = () => controller.abort();
+    options.signal?.addEventListener('abort', onCancel, { once: true });
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
 
     try {
       const response = await fetch(url, {
@@ -102,33 +287,70 @@ export class QuarriApiClient {
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
+      // Row results may be streamed; never buffer more than the row cap
+      const contentType = response.headers.get('Content-Type') ?? '';
+      if (options.maxRows !== undefined && response.ok && response.body
+        && contentType.includes(NDJSON_CONTENT_TYPE)) {
+        const rows = await readNdjsonRows(response.body, options.maxRows);
+        return { response: { success: true, data: rows as T }, retryable: false };
+      }
 
-      const data = await response.json() as T & { error?: string };
+      // Gateways return HTML error pages, so tolerate non-JSON bodies
+      const data = await response.json().catch((error) => {
+        if (controller.signal.aborted) {
+          throw error;
+        }
+        return {};
+      }) as T & { error?: string };
 
       if (!response.ok) {
         if (response.status === 401) {
           return {
-            success: false,
-            error: 'TOKEN_EXPIRED',
+            response: { success: false, error: 'TOKEN_EXPIRED' },
+            retryable: false,
           };
         }
         return {
-          success: false,
-          error: data.error || `HTTP ${response.status}: ${response.statusText}`,
+          response: {
+            success: false,
+            error: data.error || `HTTP ${response.status}: ${response.statusText}`,
+            status: response.status,
+          },
+          retryable: idempotent
+            ? RETRYABLE_STATUSES.has(response.status)
+            : REJECTED_STATUSES.has(response.status),
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
         };
       }
 
-      return { success: true, data: data as T };
+      const capped = options.maxRows !== undefined
+        ? capRows(data as Record<string, unknown>, options.maxRows)
+        : data;
+      return { response: { success: true, data: capped as T }, retryable: false };
     } catch (error) {
-      clearTimeout(timeoutId);
+      if (controller.signal.aborted && !timedOut) {
+        return {
+          response: { success: false, error: 'CANCELLED', cancelled: true },
+          retryable: false,
+        };
+      }
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        return { success: false, error: `Request timeout after ${timeout / 1000}s` };
+      if (timedOut) {
+        return {
+          response: {
+            success: false,
+            error: `Request timeout after ${timeout / 1000}s`,
+            timedOut: true,
+          },
+          retryable: idempotent,
+        };
       }
 
       const message = error instanceof Error ? error.message : 'Unknown error';
-      return { success: false, error: message };
+      return { response: { success: false, error: message }, retryable: idempotent };
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onCancel);
     }
   }
 
@@ -325,21 +547,29 @@ export class QuarriApiClient {
 
   /**
    * Execute a tool
+   * Conversation context travels as request metadata, never inside args
    */
   async executeTool(
     toolName: string,
     args: Record<string, unknown>,
-    databaseName?: string
+    databaseName?: string,
+    context?: ConversationContext,
+    options: ToolCallOptions = {}
   ): Promise<ToolResult> {
     const body: Record<string, unknown> = { args };
     if (databaseName) {
       body.database_name = databaseName;
     }
+    if (options.async) {
+      body.async = true;
+    }
 
-    const result = await this.request<ToolResult>(
-      'POST',
+    const result = await this.sendToolRequest<ToolResult>(
       `/api/cli/tool/${toolName}`,
-      body
+      toolName,
+      body,
+      context,
+      options
     );
 
     if (!result.success) {
@@ -370,14 +600,137 @@ export class QuarriApiClient {
   async executeBatch(
     tools: Array<{ name: string; args: Record<string, unknown> }>,
     databaseName?: string,
-    stopOnError = false
+    stopOnError = false,
+    context?: ConversationContext,
+    options: ToolCallOptions = {}
   ): Promise<ApiResponse<{ results: ToolResult[] }>> {
     const body: Record<string, unknown> = { tools, stop_on_error: stopOnError };
     if (databaseName) {
       body.database_name = databaseName;
     }
 
-    return this.request('POST', '/api/cli/batch', body);
+    return this.sendToolRequest('/api/cli/batch', 'batch', body, context, options);
+  }
+
+  /**
+   * Ask the backend to stop work started by a cancelled tool request.
+   * Backends without cancel support answer 404, which is ignored.
+   */
+  async cancelToolRequest(requestId: string): Promise<ApiResponse<{ cancelled: boolean }>> {
+    const result = await this.request<{ cancelled: boolean }>(
+      'POST',
+      '/api/cli/cancel',
+      { request_id: requestId },
+      true,
+      { timeout: CANCEL_TIMEOUT }
+    );
+    if (!result.success && result.status !== 404) {
+      console.error(`Failed to cancel request ${requestId}: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Get the status of a backend job.
+   * Every tool request is tracked as a job keyed by its X-Quarri-Request-Id.
+   */
+  async getJobStatus(jobId: string): Promise<ApiResponse<JobStatus>> {
+    return this.request('GET', `/api/cli/jobs/${encodeURIComponent(jobId)}`, undefined, true, {
+      timeout: JOB_STATUS_TIMEOUT,
+    });
+  }
+
+  /**
+   * Poll a job until it finishes or the wait times out.
+   * Returns the last status seen, which may still be running.
+   */
+  async waitForJob(jobId: string, options: WaitForJobOptions): Promise<ApiResponse<JobStatus>> {
+    const deadline = Date.now() + options.timeout;
+
+    for (;;) {
+      const result = await this.getJobStatus(jobId);
+      if (!result.success || !result.data) {
+        return result;
+      }
+      options.onProgress?.(result.data);
+      if (isJobFinished(result.data.status) || Date.now() + PROGRESS_POLL_INTERVAL > deadline) {
+        return result;
+      }
+
+      await sleep(PROGRESS_POLL_INTERVAL, options.signal);
+      if (options.signal?.aborted) {
+        return { success: false, error: 'CANCELLED', cancelled: true };
+      }
+    }
+  }
+
+  /**
+   * Poll a job's status until stopped, reporting each update.
+   * Stops on its own if the backend has no job status endpoint (404).
+   */
+  private pollJobStatus(jobId: string, onStatus: (status: JobStatus) => void): () => void {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      const result = await this.getJobStatus(jobId);
+      if (stopped || result.status === 404) {
+        return;
+      }
+      if (result.success && result.data) {
+        onStatus(result.data);
+      }
+      timer = setTimeout(poll, PROGRESS_POLL_INTERVAL);
+    };
+
+    timer = setTimeout(poll, PROGRESS_POLL_INTERVAL);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
+  /**
+   * Send a tool call request.
+   * Attaches conversation context to the body and a request ID for cancellation;
+   * mutating calls get an idempotency key that stays the same across retries.
+   */
+  private async sendToolRequest<T>(
+    path: string,
+    label: string,
+    body: Record<string, unknown>,
+    context: ConversationContext | undefined,
+    options: ToolCallOptions
+  ): Promise<ApiResponse<T>> {
+    const requestId = randomUUID();
+    const headers: Record<string, string> = { 'X-Quarri-Request-Id': requestId };
+    if (context) {
+      body.conversation_context = context;
+      headers['X-Quarri-Conversation-Id'] = context.conversation_id;
+    }
+    if (!options.readOnly) {
+      headers['Idempotency-Key'] = randomUUID();
+    }
+
+    const stopPolling = options.onProgress
+      ? this.pollJobStatus(requestId, options.onProgress)
+      : undefined;
+    const result = await this.request<T>('POST', path, body, true, {
+      headers,
+      idempotent: options.readOnly ?? false,
+      timeout: options.timeout,
+      signal: options.signal,
+      maxRows: options.maxRows,
+    });
+    stopPolling?.();
+
+    if (result.cancelled) {
+      // Fire and forget: the caller has already moved on
+      void this.cancelToolRequest(requestId);
+    } else if (result.timedOut) {
+      return { ...result, error: describeToolTimeout(label, options) };
+    }
+    return result;
   }
 
   /**
@@ -0,0 +1,119 @@
+/**
+ * Row result consumption with a row cap
+ * Query tools can stream results as NDJSON so large results are never fully
+ * buffered: the reader keeps at most maxRows rows and cancels the stream as
+ * soon as it sees one more (which is how truncation is detected).
+ *
+ * Stream lines are JSON objects:
+ *   {"columns": [...], "total_rows": 12345}   metadata (any line, optional)
+ *   {"row": {...}} or {"row": [...]}          one row (arrays are zipped with columns)
+ *   {"error": "..."}                         failure reported mid-stream
+ * Other keys on metadata lines (sql, execution_time, ...) are kept as-is.
+ */
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+export interface RowResult {
+  success: boolean;
+  error?: string;
+  columns?: string[];
+  rows: Record<string, unknown>[];
+  row_count: number;
+  truncated: boolean;
+  total_rows?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Turn an array row into an object keyed by column name
+ */
+function toRowObject(row: unknown, columns: string[] | undefined): Record<string, unknown> {
+  if (Array.isArray(row)) {
+    const names = columns ?? row.map((_, i) => `column_${i + 1}`);
+    return Object.fromEntries(names.map((name, i) => [name, row[i]]));
+  }
+  return (typeof row === 'object' && row !== null ? row : { value: row }) as Record<string, unknown>;
+}
+
+/**
+ * Read an NDJSON row stream, keeping at most maxRows rows
+ */
+export async function readNdjsonRows(
+  body: ReadableStream<Uint8Array>,
+  maxRows: number
+): Promise<RowResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const result: RowResult = { success: true, rows: [], row_count: 0, truncated: false };
+  let buffer = '';
+
+  const handleLine = (line: string): boolean => {
+    if (!line.trim()) {
+      return true;
+    }
+    const message = JSON.parse(line) as Record<string, unknown>;
+
+    if ('row' in message) {
+      if (result.rows.length >= maxRows) {
+        result.truncated = true;
+        return false;
+      }
+      result.rows.push(toRowObject(message.row, result.columns));
+      return true;
+    }
+
+    if (typeof message.error === 'string') {
+      result.success = false;
+      result.error = message.error;
+      return false;
+    }
+
+    Object.assign(result, message);
+    return true;
+  };
+
+  try {
+    let reading = true;
+    while (reading) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (!handleLine(line)) {
+          reading = false;
+          break;
+        }
+      }
+      if (done) {
+        reading = false;
+      }
+    }
+  } finally {
+    // Stop the transfer if we bailed out early
+    await reader.cancel().catch(() => undefined);
+  }
+
+  result.row_count = result.rows.length;
+  return result;
+}
+
+/**
+ * Apply the row cap to an already-buffered JSON result
+ */
+export function capRows<T extends Record<string, unknown>>(data: T, maxRows: number): T | RowResult {
+  if (!Array.isArray(data.rows)) {
+    return data;
+  }
+  const rows = data.rows as Record<string, unknown>[];
+  const truncated = rows.length > maxRows;
+  const kept = truncated ? rows.slice(0, maxRows) : rows;
+  return {
+    ...data,
+    success: data.success !== false,
+    rows: kept,
+    row_count: kept.length,
+    truncated,
+  };
+}
@@ -6,6 +6,8 @@
 
 import { QuarriApiClient } from './api/client.js';
 import { saveCredentials, loadCredentials, clearCredentials, StoredCredentials } from './auth/token-store.js';
+import { searchQueryHistory } from './tools/query-history.js';
+import { approveConfirmation, getPendingConfirmation } from './tools/confirmation.js';
 import * as readline from 'readline';
 
 const client = new QuarriApiClient();
@@ -123,6 +125,24 @@ async function status(): Promise<void> {
   }
 }
 
+async function history(search?: string): Promise<void> {
+  const entries = searchQueryHistory({ search });
+  if (entries.length === 0) {
+    console.log(search ? `No queries matching "${search}".` : 'No queries in the history yet.');
+    return;
+  }
+
+  console.log('\n📜 Quarri Query History\n');
+  for (const entry of entries.reverse()) {
+    const outcome = entry.success
+      ? `${entry.row_count ?? '?'} rows${entry.cached ? ', cached' : ''}`
+      : `failed: ${entry.error}`;
+    console.log(`  [${entry.id}] ${entry.timestamp}  ${entry.database}/${entry.environment}  ${entry.duration_ms}ms  (${outcome})`);
+    console.log(`    ${entry.sql.replace(/\s+/g, ' ').trim()}`);
+  }
+  console.log('\nAsk Claude to rerun one with quarri_rerun_query and its id.');
+}
+
 async function verify(email: string, code: string): Promise<void> {
   if (!email || !code) {
     console.error('Usage: quarri-auth verify <email> <code>');
@@ -330,6 +350,48 @@ async function deleteAccount(): Promise<void> {
   }
 }
 
+async function confirm(code?: string): Promise<void> {
+  if (!code) {
+    console.error('Usage: npx @quarri/claude-data-tools confirm <code>');
+    process.exit(1);
+  }
+
+  // Approval has to come from a person at a terminal, not from a tool call
+  if (!process.stdin.isTTY) {
+    console.error('confirm must be run interactively in your own terminal.');
+    process.exit(1);
+  }
+
+  const pending = getPendingConfirmation(code);
+  if (!pending) {
+    console.error(`No pending change with code ${code}. Codes expire after a few minutes; ask Claude to run the tool again for a new one.`);
+    process.exit(1);
+  }
+
+  const rl = createReadline();
+
+  try {
+    console.log('\n⚠️  Confirm Change\n');
+    console.log(pending.summary);
+    console.log('');
+
+    const answer = await prompt(rl, 'Type "CONFIRM" to approve: ');
+    if (answer !== 'CONFIRM') {
+      console.log('Not approved. Nothing was changed.');
+      return;
+    }
+
+    if (!approveConfirmation(code)) {
+      console.error('This change expired before it was approved. Ask Claude to run the tool again.');
+      process.exit(1);
+    }
+    console.log('\n✓ Approved. Tell Claude to go ahead.\n');
+
+  } finally {
+    rl.close();
+  }
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const command = args[0] || 'login';
@@ -359,6 +421,12 @@ async function main(): Promise<void> {
     case 'verify':
       await verify(args[1], args[2]);
       break;
+    case 'history':
+      await history(args.slice(1).join(' ') || undefined);
+      break;
+    case 'confirm':
+      await confirm(args[1]);
+      break;
     default:
       console.log('Usage: npx @quarri/claude-data-tools <command>');
       console.log('');
@@ -367,6 +435,8 @@ async function main(): Promise<void> {
       console.log('  auth, login              Authenticate existing account');
       console.log('  logout                   Clear stored credentials');
       console.log('  status                   Show authentication status');
+      console.log('  history [text]           Show recent queries, optionally matching text');
+      console.log('  confirm <code>           Approve a destructive change Claude asked for');
       console.log('  delete-account           Permanently delete your trial account');
       console.log('');
       console.log('Advanced:');
@@ -20,13 +20,13 @@ export interface StoredCredentials {
   expiresAt: string;
 }
 
-const QUARRI_DIR = path.join(os.homedir(), '.quarri');
+export const QUARRI_DIR = path.join(os.homedir(), '.quarri');
 const CREDENTIALS_FILE = path.join(QUARRI_DIR, 'credentials');
 
 /**
  * Ensure the ~/.quarri directory exists with secure permissions
  */
-function ensureQuarriDir(): void {
+export function ensureQuarriDir(): void {
   if (!fs.existsSync(QUARRI_DIR)) {
     fs.mkdirSync(QUARRI_DIR, { mode: 0o700 });
   }
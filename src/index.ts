@@ -3,7 +3,7 @@
  * Quarri MCP Server
  *
  * Model Context Protocol server for the Quarri Data Assistant.
- * Provides 47 tools for natural language data analysis.
+ * Tools are loaded from the backend catalog and merged with local definitions.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -11,13 +11,18 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { QuarriApiClient } from './api/client.js';
+import { QuarriApiClient, DEFAULT_TIMEOUT, JobStatus, isJobFinished } from './api/client.js';
 import {
   loadCredentials,
   loadExpiredEmail,
@@ -27,11 +32,121 @@ import {
   saveCredentials,
 } from './auth/token-store.js';
 import {
-  TOOL_DEFINITIONS,
-  getBackendToolName,
+  READ_ONLY_TOOL_NAMES,
+  ToolDefinition,
+  ToolMeta,
 } from './tools/definitions.js';
-// UI_RESOURCES disabled - Claude Desktop doesn't support custom MIME types
-// import { UI_RESOURCES } from './ui/resources.js';
+import {
+  CONVERSATION_CONTEXT_ARG,
+  CONVERSATION_CONTEXT_PARAM,
+  conversationLogTag,
+  extractConversationContext,
+} from './tools/conversation.js';
+import {
+  validateToolArguments,
+  formatValidationErrors,
+} from './tools/validation.js';
+import { parseBatchSteps } from './tools/batch.js';
+import { formatReadOnlyRejection, isToolBlocked } from './tools/read-only.js';
+import {
+  CONFIRMATION_TTL_MINUTES,
+  consumeApprovedConfirmation,
+  describeConfirmedCall,
+  discardConfirmations,
+  requestConfirmation,
+  requiresConfirmation,
+} from './tools/confirmation.js';
+import { getToolTimeout } from './tools/timeouts.js';
+import { createProgressReporter } from './tools/progress.js';
+import {
+  ASYNC_JOB_TOOLS,
+  DEFAULT_JOB_WAIT_SECONDS,
+  MAX_JOB_WAIT_SECONDS,
+  getTrackedJob,
+  listTrackedJobs,
+  trackJob,
+  updateTrackedJob,
+} from './tools/jobs.js';
+import {
+  PAGED_QUERY_TOOLS,
+  PageRequest,
+  buildPageSql,
+  finishPage,
+  getMaxResultRows,
+  resolvePageRequest,
+} from './tools/result-pages.js';
+import {
+  DEFAULT_EXPORT_MAX_ROWS,
+  checkExportQuery,
+  exportQueryResults,
+  inferExportFormat,
+  resolveExportPath,
+} from './tools/export.js';
+import {
+  clearCache,
+  getCacheTtl,
+  isCacheEnabled,
+  listCacheEntries,
+  readCachedResult,
+  writeCachedResult,
+} from './tools/result-cache.js';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  appendQueryHistory,
+  getQueryHistoryEntry,
+  searchQueryHistory,
+} from './tools/query-history.js';
+import {
+  countDefinitionChanges,
+  DefinitionSet,
+  diffDefinitionSets,
+  formatDefinitionDiff,
+  formatDefinitionSet,
+  normalizeSchemaReferences,
+  parseDefinitionSet,
+} from './tools/definition-diff.js';
+import {
+  forgetSchemaColumns,
+  lintToolCall,
+  rememberSchemaColumns,
+} from './tools/sql-lint.js';
+import {
+  getToolCatalog,
+  getCatalogToolDefinition,
+  getCatalogBackendToolName,
+  loadCachedToolCatalog,
+  refreshToolCatalog,
+} from './tools/catalog.js';
+import {
+  UI_RESOURCES,
+  RESOURCE_MIME_TYPE,
+  TOOL_UI_MAPPING,
+  getUIResource,
+  buildToolView,
+} from './ui/resources.js';
+import { renderAppHtml } from './ui/app-html.js';
+import {
+  DATA_RESOURCE_MIME_TYPE,
+  getInvalidatedResourceUris,
+  listDataResources,
+  listDataResourceTemplates,
+  parseDataResourceUri,
+  readDataResource,
+} from './resources/data-resources.js';
+import {
+  loadSkillPrompts,
+  getMissingArguments,
+  renderPromptText,
+} from './prompts/skills.js';
+import {
+  SAVED_SKILL_PROMPT_PREFIX,
+  SKILL_MUTATING_TOOLS,
+  getCachedSavedSkillPrompts,
+  getSavedSkillPrompts,
+  refreshSavedSkillPrompts,
+  renderSavedSkillPrompt,
+  samePromptList,
+} from './prompts/backend-skills.js';
 
 // Initialize API client
 const client = new QuarriApiClient();
@@ -40,8 +155,6 @@ const client = new QuarriApiClient();
 const QUARRI_ICON_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAADkklEQVR4nL2XaahNURTHf/ccwzNPzyxDSeahSCmZkuHJPPsmUmYppWcsZChJFJ/wwawQiuKL+CCRIVPkEZkicxnf0ar/0XrHve7j3fdWnc6+/332Xv+9pr0ulF0CPRUiAVBJ4xpALzdneKqiiDQCrgARcARo7+bCXCsLdTo7fXdgiPBOwHGRKAZWA7Vz6ZYgYdJ2wCspPAw0Fz4cuC+8CJiUIP/Pbkk5P5tMBKZr3BTYJ2WRTh1LIfBD+Bmg5//ER8qNza9HnbJLLuj6AteFPwHGCW8GHHJrtop0LEFplNcAVsqvtslemfWpfu8C6ujb2cBn4WeBDsIHATeFvwHmApXTHPIPf3cB7mrhHW2EzHnLnewTsFBzNYGdbm4LUFVz9s0H4VeB3tLzhyUq6T1FH29QADUEDgh7B0wGWrjT3QP6a61lyAXhb4EZwhsDe4SvTej7LTEwBvgJdAR6AB+1cLNMWBfYIfc8Bx5p3mKlifaYpjnDL6tmtNO+hdkIjNXCHvK7jQdqbhHwXdhBoLVIFabJCnPLNmGDdSAbLy8tgW6yhp20OjDL+TGOCy9tXPQ/VDa01an7AZ0zEQjILCk9eXpssxHAOVcZ45pRpHoxR2RaKRADKX6v9TYuIUHid5QmVeJ0DN1T7PAfckWgilgsZfHeVYACrcvLZProL5ZIEvabe5L2VNOcBe9XfbsfyAdOKxtSwksQoJREvmW47VLCzRomA+SuUIXKSvkJFbkSOoIsCpPE8sW+2BGJFRteT99uB4YBy5Qt54GTwIpsQRhlOJ0pNLkILHCuiM1pabcK2C3skAqQFZ7FKkwWB7cz6Qn1HqnJ7i4l7VTzNb6m93XVByMyXqkXqVyb+dH8A+EXXdOS9i4I9R4lc3oCdR2B6lIYX0A39P4qy6CKeNRdRJaeJhOAmQl9vyUGCrTQrt3RzgJzXAWsrxzfIWyPSJKoiutkIWtcjmW7C3BFZ6luxUnyvW0+z20cySK4FszatMeas3RrKXyFW7MJaOAKXFYZq4X5ImBk+qjbiRRQI525n8uCcZv21PUJdreUWkJXZsfIBUu0WRxgk3U9x6ezDEBX9SlhL4CpuWrbxwFftPFumT4UMav7qIuKCW10cVGmDjl0i7uqmEQiY+2YyVBn7jP6zq/PiQRuPN41Ii/1fpZox8vlX1LgiNQC1gCvgfW5/kOSTbxZa2fAy11Sicuowv6UpiNSJvkFzuMCrxHaJBsAAAAASUVORK5CYII=';
 
 // Initialize MCP server
-// Resources capability re-enabled with empty responses to prevent -32601 errors
-// Claude Desktop may have cached old resource lists and tries to read them
 const server = new Server(
   {
     name: 'quarri',
@@ -56,8 +169,9 @@ const server = new Server(
   },
   {
     capabilities: {
-      tools: {},
-      resources: {},
+      tools: { listChanged: true },
+      resources: { subscribe: true },
+      prompts: { listChanged: true },
     },
   }
 );
@@ -107,28 +221,134 @@ After authenticating, restart Claude Code to pick up the credentials.
 `.trim();
 }
 
-// Resource handlers - return empty/safe responses to prevent -32601 errors
-// Claude Desktop may have cached old resource lists and tries to read them
+/**
+ * Handle list resources request
+ */
 server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  return { resources: [] };
+  const uiResources = UI_RESOURCES.map((resource) => ({
+    uri: resource.uri,
+    name: resource.name,
+    description: resource.description,
+    mimeType: resource.mimeType,
+    ...(resource._meta && { _meta: resource._meta }),
+  }));
+
+  // Data resources are only listed once authenticated
+  const credentials = loadCredentials();
+  const dataResources = credentials ? listDataResources(credentials.databases) : [];
+
+  return { resources: [...dataResources, ...uiResources] };
+});
+
+/**
+ * Handle list resource templates request
+ */
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return { resourceTemplates: listDataResourceTemplates() };
+});
+
+// URIs the client has subscribed to via resources/subscribe
+const resourceSubscriptions = new Set<string>();
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  const { uri } = request.params;
+  // Only data resources change; anything else can't be subscribed to
+  if (!parseDataResourceUri(uri)) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+  }
+  resourceSubscriptions.add(uri);
+  return {};
 });
 
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  resourceSubscriptions.delete(request.params.uri);
+  return {};
+});
+
+/**
+ * Notify subscribers of resources invalidated by a successful tool call
+ */
+async function notifyResourceUpdates(toolName: string, databaseName: string): Promise<void> {
+  const uris = getInvalidatedResourceUris(toolName, databaseName, resourceSubscriptions);
+  for (const uri of uris) {
+    try {
+      await server.sendResourceUpdated({ uri });
+    } catch (error) {
+      console.error(`Failed to send resource update for ${uri}:`, error);
+    }
+  }
+}
+
+/**
+ * Handle read resource request
+ */
 server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   const { uri } = request.params;
-  // For ui:// scheme URIs (cached from old versions), return valid empty HTML
-  // Claude Desktop expects text/html;profile=mcp-app for UI resources
+
+  const resource = getUIResource(uri);
+  if (resource) {
+    return {
+      contents: [
+        {
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: renderAppHtml(resource),
+          ...(resource._meta && { _meta: resource._meta }),
+        },
+      ],
+    };
+  }
+
+  const dataResource = parseDataResourceUri(uri);
+  if (dataResource) {
+    const credentials = loadCredentials();
+    if (!credentials) {
+      throw new McpError(ErrorCode.InvalidRequest, getAuthInstructions());
+    }
+    client.setToken(credentials.token);
+
+    const hasAccess = credentials.role === 'super_admin' || credentials.databases.some(
+      (d) => d.database_name === dataResource.database
+    );
+    if (!hasAccess) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Database '${dataResource.database}' not found or access denied`
+      );
+    }
+
+    const result = await readDataResource(client, dataResource);
+    if (!result.success) {
+      const message = result.error === 'TOKEN_EXPIRED'
+        ? 'Your Quarri session has expired. Use quarri_request_reauth to re-authenticate.'
+        : formatErrorResponse(result.error || 'Unknown error');
+      throw new McpError(ErrorCode.InternalError, message);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: DATA_RESOURCE_MIME_TYPE,
+          text: result.text,
+        },
+      ],
+    };
+  }
+
+  // For ui:// URIs cached from old versions, return valid empty HTML
   if (uri.startsWith('ui://')) {
     return {
       contents: [
         {
           uri: uri,
-          mimeType: 'text/html;profile=mcp-app',
+          mimeType: RESOURCE_MIME_TYPE,
           text: '<!-- Resource no longer available -->',
         },
       ],
     };
   }
-  // For other URIs, return proper error
+
   throw new McpError(
     ErrorCode.InvalidRequest,
     `Resource not found: ${uri}`
@@ -136,50 +356,223 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
 });
 
 /**
- * Handle list tools request
+ * Handle list prompts request
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  // Conversation context parameter injected into every tool at runtime
-  const conversationContextParam = {
-    type: 'object',
-    description:
-      'REQUIRED on every call. Provide: (1) conversation_id - a UUID you generate on your first tool call and reuse for all subsequent calls in this conversation, (2) user_message - a 1-2 sentence summary of what the user asked that led to this tool call.',
-    properties: {
-      conversation_id: {
-        type: 'string',
-        description:
-          'A stable UUID for this conversation. Generate once on your first tool call, then reuse on every subsequent call in the same conversation.',
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  const prompts = loadSkillPrompts().map((prompt) => ({
+    name: prompt.name,
+    description: prompt.description,
+    arguments: prompt.arguments,
+  }));
+
+  // Saved skills for the selected database, when authenticated
+  const databaseName = getSelectedDatabase();
+  if (databaseName && await ensureAuthenticated()) {
+    const savedPrompts = await getSavedSkillPrompts(client, databaseName);
+    for (const prompt of savedPrompts) {
+      prompts.push({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments,
+      });
+    }
+  }
+
+  return { prompts };
+});
+
+/**
+ * Handle get prompt request
+ */
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { name, arguments: promptArgs = {} } = request.params;
+
+  if (name.startsWith(SAVED_SKILL_PROMPT_PREFIX)) {
+    return getSavedSkillPrompt(name, promptArgs);
+  }
+
+  const prompt = loadSkillPrompts().find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+  }
+
+  const missing = getMissingArguments(prompt, promptArgs);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required argument(s) for ${name}: ${missing.join(', ')}`
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: renderPromptText(prompt, promptArgs),
+        },
       },
-      user_message: {
-        type: 'string',
-        description:
-          'Brief summary (1-2 sentences) of the user request that led to this tool call.',
+    ],
+  };
+});
+
+/**
+ * Resolve a saved (backend) skill prompt for the selected database
+ */
+async function getSavedSkillPrompt(name: string, promptArgs: Record<string, string>) {
+  const databaseName = getSelectedDatabase();
+  if (!databaseName || !(await ensureAuthenticated())) {
+    throw new McpError(ErrorCode.InvalidRequest, getAuthInstructions());
+  }
+
+  const prompt = (await getSavedSkillPrompts(client, databaseName)).find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+  }
+
+  const result = await renderSavedSkillPrompt(client, databaseName, prompt, promptArgs);
+  if (!result.success || !result.text) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      formatErrorResponse(result.error || 'Failed to load skill')
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: result.text,
+        },
       },
-    },
-    required: ['conversation_id', 'user_message'],
+    ],
   };
+}
+
+/**
+ * Refresh saved skill prompts after a skill changes and tell the client if the list moved
+ */
+async function notifySkillPromptChanges(toolName: string, databaseName: string): Promise<void> {
+  if (!SKILL_MUTATING_TOOLS.includes(toolName)) {
+    return;
+  }
+
+  // Read the list from before the change; with nothing cached the client may
+  // hold any list, so treat it as changed
+  const before = getCachedSavedSkillPrompts(databaseName);
+  const result = await refreshSavedSkillPrompts(client, databaseName);
+  if (!result.success || (before && samePromptList(before, result.prompts))) {
+    return;
+  }
+
+  try {
+    await server.sendPromptListChanged();
+  } catch (error) {
+    console.error('Failed to send prompt list change:', error);
+  }
+}
+
+/**
+ * Apply the side effects of a successful tool call: resource and prompt
+ * notifications, and dropping cached results and schema columns once the
+ * database has changed
+ */
+async function handleToolSideEffects(toolName: string, databaseName: string): Promise<void> {
+  if (getCatalogToolDefinition(toolName)?.mutates) {
+    forgetSchemaColumns(databaseName);
+    const removed = clearCache({ database: databaseName });
+    if (removed > 0) {
+      console.error(`${toolName} invalidated ${removed} cached result(s) for ${databaseName}`);
+    }
+  }
+  await notifyResourceUpdates(toolName, databaseName);
+  await notifySkillPromptChanges(toolName, databaseName);
+}
 
+/**
+ * Handle list tools request
+ */
+server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
-    tools: TOOL_DEFINITIONS.map((tool) => ({
+    // Mutating tools are hidden in read-only mode
+    tools: getToolCatalog().filter((tool) => !isToolBlocked(tool)).map((tool) => ({
       name: tool.name,
       description: tool.description,
       inputSchema: {
         ...tool.inputSchema,
         properties: {
           ...tool.inputSchema.properties,
-          _conversation_context: conversationContextParam,
+          [CONVERSATION_CONTEXT_ARG]: CONVERSATION_CONTEXT_PARAM,
         },
       },
-      ...(tool._meta && { _meta: tool._meta }),
+      ...(getToolMeta(tool) && { _meta: getToolMeta(tool) }),
     })),
   };
 });
 
+/**
+ * Get the _meta advertised for a tool, linking it to its UI app if it has one
+ */
+function getToolMeta(tool: ToolDefinition): ToolMeta | undefined {
+  if (tool._meta) {
+    return tool._meta;
+  }
+  const resourceUri = TOOL_UI_MAPPING[tool.name];
+  return resourceUri ? { ui: { resourceUri } } : undefined;
+}
+
 /**
  * Handle tool execution request
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+  const { name } = request.params;
+
+  // Conversation context is routed as request metadata, not as a tool argument
+  const { context: conversationContext, args } = extractConversationContext(
+    request.params.arguments ?? {}
+  );
+  const logTag = conversationLogTag(conversationContext);
+
+  // Report backend job progress when the caller asked for it
+  const progressToken = request.params._meta?.progressToken;
+  const onProgress = progressToken !== undefined
+    ? createProgressReporter(progressToken, extra.sendNotification)
+    : undefined;
+
+  const toolDefinition = getCatalogToolDefinition(name);
+  if (isToolBlocked(toolDefinition)) {
+    console.error(`${logTag} ${name} rejected (read-only mode)`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatReadOnlyRejection(name),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate arguments locally before doing any work
+  if (toolDefinition) {
+    const validationErrors = validateToolArguments(toolDefinition, args);
+    if (validationErrors.length > 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatValidationErrors(name, validationErrors),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
 
   // Handle auth_status before authentication check (for debugging)
   if (name === 'quarri_auth_status') {
@@ -222,6 +615,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           text: JSON.stringify(authData, null, 2),
         },
       ],
+      ...buildUIResource(name, authData),
     };
   }
 
@@ -306,6 +700,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         expiresAt: result.expiresAt || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
       });
       client.setToken(result.token);
+      void syncToolCatalog();
     }
 
     return {
@@ -325,6 +720,76 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
   }
 
+  // The result cache is local, so it works without a session
+  if (name === 'quarri_cache') {
+    const { action = 'stats', ...filter } = args as { action?: string; database?: string; tool?: string };
+
+    if (action === 'clear') {
+      const removed = clearCache(filter);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, removed }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const entries = listCacheEntries(filter);
+    const data = action === 'list'
+      ? { enabled: isCacheEnabled(), entries }
+      : {
+        enabled: isCacheEnabled(),
+        entries: entries.length,
+        expired: entries.filter((entry) => entry.expired).length,
+        bytes: entries.reduce((total, entry) => total + entry.bytes, 0),
+        by_tool: entries.reduce<Record<string, number>>((counts, entry) => {
+          counts[entry.tool] = (counts[entry.tool] ?? 0) + 1;
+          return counts;
+        }, {}),
+      };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  if (name === 'quarri_query_history') {
+    const { search, database, tool, this_conversation, failed_only, limit } = args as {
+      search?: string;
+      database?: string;
+      tool?: string;
+      this_conversation?: boolean;
+      failed_only?: boolean;
+      limit?: number;
+    };
+    const entries = searchQueryHistory({
+      search,
+      database,
+      tool,
+      conversationId: this_conversation ? conversationContext.conversation_id : undefined,
+      failedOnly: failed_only,
+      limit: limit ?? DEFAULT_HISTORY_LIMIT,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: entries.length > 0
+            ? `${JSON.stringify(entries, null, 2)}\n\nUse quarri_rerun_query with an id to run a query again.`
+            : 'No matching queries in the history.',
+        },
+      ],
+    };
+  }
+
   // Ensure authenticated for all other tools
   const authenticated = await ensureAuthenticated();
   if (!authenticated) {
@@ -370,6 +835,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       );
     }
 
+    // Saved skill prompts are per database
+    await server.sendPromptListChanged().catch((error) => {
+      console.error('Failed to send prompt list change:', error);
+    });
+
     return {
       content: [
         {
@@ -383,6 +853,81 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
   }
 
+  // Background jobs started with async: true
+  if (name === 'quarri_get_job_status' || name === 'quarri_wait_for_job') {
+    const { job_id: jobId, timeout_seconds: timeoutSeconds = DEFAULT_JOB_WAIT_SECONDS } = args as {
+      job_id?: string;
+      timeout_seconds?: number;
+    };
+
+    if (!jobId) {
+      // Refresh jobs that were still running at last check
+      for (const job of listTrackedJobs().filter((j) => !isJobFinished(j.status))) {
+        const result = await client.getJobStatus(job.jobId);
+        if (result.success && result.data) {
+          await recordJobStatus(job.jobId, result.data);
+        }
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              jobs: listTrackedJobs().map((job) => ({
+                job_id: job.jobId,
+                tool: job.tool,
+                database: job.database,
+                started_at: job.startedAt,
+                status: job.status,
+                stage: job.stage,
+              })),
+              message: listTrackedJobs().length === 0
+                ? 'No background jobs have been started in this session.'
+                : undefined,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const result = name === 'quarri_wait_for_job'
+      ? await client.waitForJob(jobId, {
+        timeout: Math.min(Math.max(timeoutSeconds, 1), MAX_JOB_WAIT_SECONDS) * 1000,
+        signal: extra.signal,
+        onProgress,
+      })
+      : await client.getJobStatus(jobId);
+
+    if (!result.success || !result.data) {
+      if (result.error === 'TOKEN_EXPIRED') {
+        return sessionExpiredResponse();
+      }
+      if (result.error === 'CANCELLED') {
+        return cancelledResponse();
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatErrorResponse(result.error || `Job ${jobId} not found`),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    await recordJobStatus(jobId, result.data);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatJobStatus(jobId, result.data),
+        },
+      ],
+      ...(['failed', 'error'].includes(result.data.status.toLowerCase()) && { isError: true }),
+    };
+  }
+
   // Handle trial status
   if (name === 'quarri_trial_status') {
     const result = await client.getTrialStatus();
@@ -438,63 +983,677 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           text: JSON.stringify(trialData, null, 2),
         },
       ],
+      ...buildUIResource(name, trialData),
     };
   }
 
-  // Map MCP tool name to backend tool name
-  const backendToolName = getBackendToolName(name);
-  if (!backendToolName) {
-    throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-  }
+  // Export a query to a local file, page by page
+  if (name === 'quarri_export_query') {
+    const {
+      sql,
+      path: requestedPath,
+      format: requestedFormat,
+      source = 'execute_sql',
+      environment,
+      max_rows: maxRows = DEFAULT_EXPORT_MAX_ROWS,
+      overwrite = false,
+    } = args as {
+      sql: string;
+      path: string;
+      format?: string;
+      source?: string;
+      environment?: string;
+      max_rows?: number;
+      overwrite?: boolean;
+    };
 
-  // Get selected database
-  const databaseName = getSelectedDatabase();
+    const selectedDatabase = ensureDatabaseSelected(logTag);
+    if (!selectedDatabase) {
+      return noDatabaseResponse();
+    }
 
-  // Check if database is required but not selected
-  if (!databaseName) {
-    const credentials = loadCredentials();
-    if (credentials && credentials.databases.length > 0) {
-      // Auto-select first database if available
-      const firstDb = credentials.databases[0].database_name;
-      setSelectedDatabase(firstDb);
-      console.error(`Auto-selected database: ${firstDb}`);
-    } else {
+    const queryTool = `quarri_${source}`;
+    const backendName = getCatalogBackendToolName(queryTool);
+    if (!backendName) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${queryTool}`);
+    }
+
+    const problems = checkExportQuery(source, selectedDatabase, sql, environment);
+    if (problems.length > 0) {
+      console.error(`${logTag} ${name} rejected by SQL checks`);
       return {
         content: [
           {
             type: 'text',
-            text: 'No database selected. Use quarri_list_databases to see available databases, then quarri_select_database to choose one.',
+            text: formatValidationErrors(name, problems),
           },
         ],
         isError: true,
       };
     }
-  }
 
-  // Execute tool via API
-  const result = await client.executeTool(
-    backendToolName,
-    args as Record<string, unknown>,
-    getSelectedDatabase() ?? undefined
-  );
+    const filePath = resolveExportPath(requestedPath);
+    const format = inferExportFormat(filePath, requestedFormat);
+    const pageSize = getMaxResultRows();
+    console.error(`${logTag} ${name} -> ${backendName} (${format} to ${filePath})`);
+
+    const result = await exportQueryResults({
+      filePath,
+      format,
+      maxRows: Math.max(1, maxRows),
+      overwrite,
+      fetchPage: async (offset) => {
+        const page = await client.executeTool(
+          backendName,
+          {
+            sql: buildPageSql(sql, offset, pageSize + 1),
+            limit: pageSize + 1,
+            ...(environment && { environment }),
+          },
+          selectedDatabase,
+          conversationContext,
+          {
+            readOnly: true,
+            timeout: getToolTimeout(getCatalogToolDefinition(queryTool), backendName),
+            signal: extra.signal,
+            maxRows: pageSize,
+          }
+        );
+        return {
+          success: page.success,
+          error: page.error,
+          columns: Array.isArray(page.columns) ? page.columns as string[] : undefined,
+          rows: Array.isArray(page.rows) ? page.rows as Record<string, unknown>[] : [],
+          hasMore: page.truncated === true,
+        };
+      },
+      onRows: (rowCount) => onProgress?.({ status: 'running', progress: rowCount, message: `${rowCount} rows written` }),
+    });
 
-  // Handle TOKEN_EXPIRED from server-side 401
-  if (!result.success && result.error === 'TOKEN_EXPIRED') {
-    const expiredEmail = loadExpiredEmail();
-    const hint = expiredEmail
-      ? `Use quarri_request_reauth to re-authenticate as ${expiredEmail}.`
-      : 'Use quarri_request_reauth to re-authenticate.';
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Your Quarri session has expired. ${hint}`,
-        },
-      ],
+    if (!result.success) {
+      console.error(`${logTag} ${name} failed: ${result.error}`);
+      if (result.error === 'TOKEN_EXPIRED') {
+        return sessionExpiredResponse();
+      }
+      if (result.error === 'CANCELLED') {
+        return cancelledResponse();
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatErrorResponse(
+              result.row_count > 0
+                ? `${result.error} (after writing ${result.row_count} rows to ${filePath})`
+                : result.error || 'Unknown error'
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            message: result.truncated
+              ? `Exported the first ${result.row_count} rows (max_rows reached) to ${filePath}.`
+              : `Exported ${result.row_count} rows to ${filePath}.`,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Compare two environments' data models. Both sides' lineage, relationships
+  // and schema are fetched in one batch request and diffed here. A promotion
+  // plan is the same diff of an environment against production.
+  if (name === 'quarri_diff_environments' || name === 'quarri_plan_promotion') {
+    const promotion = name === 'quarri_plan_promotion';
+    const { environment, base_environment: baseEnvironment = 'production' } = promotion
+      ? { environment: (args as { environment_name: string }).environment_name }
+      : args as { environment: string; base_environment?: string };
+
+    if (promotion && environment === 'production') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatValidationErrors(name, ['environment_name: production cannot be promoted to itself']),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const selectedDatabase = ensureDatabaseSelected(logTag);
+    if (!selectedDatabase) {
+      return noDatabaseResponse();
+    }
+
+    const { steps, missing } = modelDefinitionSteps('production');
+    if (missing.length > 0) {
+      return missingModelSourcesResponse(name, missing);
+    }
+
+    const environments = [baseEnvironment, environment];
+    const batch = environments.flatMap((env) => modelDefinitionSteps(env).steps);
+
+    console.error(`${logTag} ${name} ${baseEnvironment} -> ${environment}`);
+    const result = await client.executeBatch(batch, selectedDatabase, true, conversationContext, {
+      readOnly: true,
+      timeout: getToolTimeout(toolDefinition, promotion ? 'plan_promotion' : 'diff_environments'),
+      signal: extra.signal,
+      onProgress,
+    });
+
+    const stepResults = result.data?.results ?? [];
+    const failedIndex = batch.findIndex((_, index) => !stepResults[index]?.success);
+    if (!result.success || failedIndex !== -1) {
+      const error = result.success
+        ? `${MODEL_DEFINITION_SOURCES[failedIndex % steps.length].tool} for environment '${environments[Math.floor(failedIndex / steps.length)]}' failed: ${stepResults[failedIndex]?.error || 'no result returned'}`
+        : result.error;
+      console.error(`${logTag} ${name} failed: ${error}`);
+      if (error === 'TOKEN_EXPIRED') {
+        return sessionExpiredResponse();
+      }
+      if (error === 'CANCELLED') {
+        return cancelledResponse();
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatErrorResponse(error || 'Unknown error'),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const [before, after] = environments.map((env, side) =>
+      parseModelDefinitions(stepResults.slice(side * steps.length, (side + 1) * steps.length), env));
+    const diff = diffDefinitionSets(before, after, { before: baseEnvironment, after: environment });
+
+    if (promotion) {
+      const changes = countDefinitionChanges(diff);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatDefinitionDiff(diff, `Promotion plan: ${environment} → production`)
+              + (changes > 0
+                ? `\n\nNothing has been changed yet. After the user reviews this plan, run quarri_promote_environment with environment_name "${environment}" to apply it.`
+                : `\n\nPromoting ${environment} would not change production.`),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatDefinitionDiff(diff, `Environment diff: ${baseEnvironment} → ${environment}`),
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({ base_environment: baseEnvironment, environment, ...diff }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Show what a production snapshot contains
+  if (name === 'quarri_get_snapshot') {
+    const { snapshot_id: snapshotId } = args as { snapshot_id?: number };
+
+    const selectedDatabase = ensureDatabaseSelected(logTag);
+    if (!selectedDatabase) {
+      return noDatabaseResponse();
+    }
+
+    const backendName = getCatalogBackendToolName(name);
+    if (!backendName) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    console.error(`${logTag} ${name} -> ${backendName}`);
+    const result = await client.executeTool(
+      backendName,
+      snapshotId === undefined ? {} : { snapshot_id: snapshotId },
+      selectedDatabase,
+      conversationContext,
+      {
+        readOnly: true,
+        timeout: getToolTimeout(toolDefinition, backendName),
+        signal: extra.signal,
+        onProgress,
+      }
+    );
+
+    if (!result.success) {
+      console.error(`${logTag} ${name} failed: ${result.error}`);
+      if (result.error === 'TOKEN_EXPIRED') {
+        return sessionExpiredResponse();
+      }
+      if (result.error === 'CANCELLED') {
+        return cancelledResponse();
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatErrorResponse(result.error || 'Unknown error'),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const snapshot = getSnapshotPayload(result);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatDefinitionSet(parseDefinitionSet(snapshot), formatSnapshotTitle(snapshot, snapshotId)),
+        },
+      ],
+    };
+  }
+
+  // Preview a rollback: current production against a snapshot, fetched in one
+  // batch request and diffed here
+  if (name === 'quarri_diff_snapshot') {
+    const { snapshot_id: snapshotId } = args as { snapshot_id?: number };
+
+    const selectedDatabase = ensureDatabaseSelected(logTag);
+    if (!selectedDatabase) {
+      return noDatabaseResponse();
+    }
+
+    const snapshotBackendName = getCatalogBackendToolName('quarri_get_snapshot');
+    const { steps, missing } = modelDefinitionSteps('production');
+    if (!snapshotBackendName || missing.length > 0) {
+      return missingModelSourcesResponse(name, [...(snapshotBackendName ? [] : ['quarri_get_snapshot']), ...missing]);
+    }
+
+    console.error(`${logTag} ${name} ${snapshotId ?? 'latest'}`);
+    const result = await client.executeBatch(
+      [{ name: snapshotBackendName, args: snapshotId === undefined ? {} : { snapshot_id: snapshotId } }, ...steps],
+      selectedDatabase,
+      true,
+      conversationContext,
+      {
+        readOnly: true,
+        timeout: getToolTimeout(toolDefinition, 'diff_snapshot'),
+        signal: extra.signal,
+        onProgress,
+      }
+    );
+
+    const stepResults = result.data?.results ?? [];
+    const failedIndex = [snapshotBackendName, ...steps].findIndex((_, index) => !stepResults[index]?.success);
+    if (!result.success || failedIndex !== -1) {
+      const error = result.success
+        ? `${failedIndex === 0 ? 'quarri_get_snapshot' : MODEL_DEFINITION_SOURCES[failedIndex - 1].tool} failed: ${stepResults[failedIndex]?.error || 'no result returned'}`
+        : result.error;
+      console.error(`${logTag} ${name} failed: ${error}`);
+      if (error === 'TOKEN_EXPIRED') {
+        return sessionExpiredResponse();
+      }
+      if (error === 'CANCELLED') {
+        return cancelledResponse();
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatErrorResponse(error || 'Unknown error'),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const snapshot = getSnapshotPayload(stepResults[0]);
+    const production = parseModelDefinitions(stepResults.slice(1), 'production');
+    const restored = parseDefinitionSet(snapshot);
+    // Snapshots don't store the generated quarri.schema (rollback regenerates it)
+    const hasColumns = Object.keys(restored.columns).length > 0;
+    if (!hasColumns) {
+      restored.columns = production.columns;
+    }
+
+    const id = snapshot.id ?? snapshot.snapshot_id ?? snapshotId;
+    const diff = diffDefinitionSets(production, restored, {
+      before: 'production',
+      after: id === undefined ? 'snapshot' : `snapshot-${id}`,
+    });
+    const changes = countDefinitionChanges(diff);
+    const rollbackCall = id === undefined
+      ? 'quarri_rollback_production'
+      : `quarri_rollback_production with snapshot_id ${id}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatDefinitionDiff(diff, `Rollback preview: production → ${formatSnapshotTitle(snapshot, snapshotId)}`)
+            + (hasColumns ? '' : '\n\nquarri.schema is regenerated by the rollback, so column changes are not shown.')
+            + (changes > 0
+              ? `\n\nNothing has been changed yet. After the user reviews this diff, run ${rollbackCall} to apply it.`
+              : '\n\nRolling back to this snapshot would not change the production definitions.'),
+        },
+      ],
+    };
+  }
+
+  // Run several backend tools in one request
+  if (name === 'quarri_batch') {
+    const { steps: rawSteps, stop_on_error: stopOnError = false } = args as {
+      steps: unknown[];
+      stop_on_error?: boolean;
+    };
+
+    const selectedDatabase = ensureDatabaseSelected(logTag);
+    if (!selectedDatabase) {
+      return noDatabaseResponse();
+    }
+
+    const { steps, errors } = parseBatchSteps(rawSteps, selectedDatabase);
+    if (errors.length > 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatValidationErrors(name, errors),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Query steps are paged and recorded in the history like direct calls
+    const pages = new Map<number, PageRequest>();
+    const pageErrors: string[] = [];
+    for (const [index, step] of steps.entries()) {
+      if (!PAGED_QUERY_TOOLS.has(step.tool)) {
+        continue;
+      }
+      const resolved = resolvePageRequest(step.tool, selectedDatabase, conversationContext.conversation_id, step.args);
+      if ('error' in resolved) {
+        pageErrors.push(`steps[${index}] (${step.tool}): ${resolved.error}`);
+        continue;
+      }
+      pages.set(index, resolved);
+      step.args = resolved.args;
+    }
+    if (pageErrors.length > 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatValidationErrors(name, pageErrors),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    console.error(`${logTag} ${name} -> ${steps.map((s) => s.backendName).join(', ')}`);
+    const startedAt = Date.now();
+    const result = await client.executeBatch(
+      steps.map((s) => ({ name: s.backendName, args: s.args })),
+      selectedDatabase,
+      stopOnError,
+      conversationContext,
+      {
+        readOnly: steps.every((s) => READ_ONLY_TOOL_NAMES.has(s.tool)),
+        // Steps run sequentially, so allow each its own timeout
+        timeout: steps.reduce((total, s) => total + (s.timeout ?? DEFAULT_TIMEOUT), 0),
+        signal: extra.signal,
+        onProgress,
+      }
+    );
+
+    if (!result.success || !result.data) {
+      console.error(`${logTag} ${name} failed: ${result.error}`);
+      if (result.error === 'TOKEN_EXPIRED') {
+        return sessionExpiredResponse();
+      }
+      if (result.error === 'CANCELLED') {
+        return cancelledResponse();
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatErrorResponse(result.error || 'Unknown error'),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const stepResults = result.data.results ?? [];
+    // Steps are not timed separately, so each query is recorded with the batch duration
+    const durationMs = Date.now() - startedAt;
+    for (const [index, page] of pages) {
+      if (stepResults[index]) {
+        recordQuery(steps[index].tool, selectedDatabase, conversationContext.conversation_id, page, stepResults[index], durationMs);
+      }
+    }
+
+    const sections = steps.map((step, index) => {
+      const stepResult = stepResults[index];
+      const heading = `## Step ${index + 1}: ${step.tool}`;
+      if (!stepResult) {
+        return stopOnError
+          ? `${heading}\n\nSkipped (an earlier step failed and stop_on_error is set)`
+          : `${heading}\n\n${formatErrorResponse('No result returned for this step')}`;
+      }
+      if (!stepResult.success) {
+        return `${heading}\n\n${formatErrorResponse(stepResult.error || 'Unknown error')}`;
+      }
+      const page = pages.get(index);
+      const output = page
+        ? finishPage(step.tool, selectedDatabase, conversationContext.conversation_id, page, stepResult)
+        : stepResult;
+      return `${heading}\n\n${formatToolResponse(step.tool, output)}`;
+    });
+
+    for (const [index, step] of steps.entries()) {
+      if (stepResults[index]?.success) {
+        await handleToolSideEffects(step.tool, selectedDatabase);
+        rememberSchemaColumns(step.tool, selectedDatabase, step.args, stepResults[index]);
+      }
+    }
+
+    const failed = steps.filter((_, index) => !stepResults[index]?.success).length;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: sections.join('\n\n') + getExpiryWarning(),
+        },
+      ],
+      ...(failed === steps.length && { isError: true }),
+    };
+  }
+
+  // A replay runs as the query tool that originally ran it
+  let toolName = name;
+  let toolArgs = args;
+  let replayDatabase: string | undefined;
+  if (name === 'quarri_rerun_query') {
+    const { id, limit, environment } = args as { id: string; limit?: number; environment?: string };
+    const entry = getQueryHistoryEntry(id);
+    if (!entry) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No query with id '${id}' in the history. Use quarri_query_history to find it.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+    toolName = entry.tool;
+    replayDatabase = entry.database;
+    toolArgs = {
+      sql: entry.sql,
+      environment: environment ?? entry.environment,
+      ...(limit !== undefined && { limit }),
+    };
+  }
+
+  // Map MCP tool name to backend tool name
+  const backendToolName = getCatalogBackendToolName(toolName);
+  if (!backendToolName) {
+    throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
+  }
+
+  const selectedDatabase = ensureDatabaseSelected(logTag);
+  if (!selectedDatabase) {
+    return noDatabaseResponse();
+  }
+
+  if (replayDatabase && replayDatabase !== selectedDatabase) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `That query ran against '${replayDatabase}', but '${selectedDatabase}' is selected. Call quarri_select_database first.`,
+        },
+      ],
       isError: true,
     };
   }
 
+  // Long-running tools can run as background jobs; async is ours, not a backend arg
+  let runAsync = false;
+  if (ASYNC_JOB_TOOLS.has(toolName)) {
+    const { async: asyncFlag, ...rest } = args;
+    toolArgs = rest;
+    runAsync = asyncFlag === true;
+  }
+
+  // Destructive tools wait for the user's explicit confirmation
+  if (requiresConfirmation(toolName)) {
+    const unconfirmed = await confirmToolCall(toolName, selectedDatabase, toolArgs, extra.signal);
+    if (unconfirmed) {
+      return unconfirmed;
+    }
+    console.error(`${logTag} ${toolName} confirmed by the user`);
+  }
+
+  // Catch non-SELECT statements, other tables and unknown columns before sending
+  const problems = lintToolCall(toolName, selectedDatabase, toolArgs);
+  if (problems.length > 0) {
+    console.error(`${logTag} ${toolName} rejected by SQL checks`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatValidationErrors(toolName, problems),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Query results come back one page at a time
+  let page: PageRequest | undefined;
+  if (PAGED_QUERY_TOOLS.has(toolName)) {
+    const resolved = resolvePageRequest(
+      toolName,
+      selectedDatabase,
+      conversationContext.conversation_id,
+      toolArgs
+    );
+    if ('error' in resolved) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatValidationErrors(toolName, [resolved.error]),
+          },
+        ],
+        isError: true,
+      };
+    }
+    page = resolved;
+    toolArgs = resolved.args;
+  }
+
+  // Serve repeated read-only calls from the local cache when enabled
+  const cacheTtl = isCacheEnabled() ? getCacheTtl(toolName, backendToolName) : undefined;
+  if (cacheTtl !== undefined) {
+    const cached = readCachedResult(toolName, selectedDatabase, toolArgs);
+    if (cached) {
+      console.error(`${logTag} ${toolName} served from cache`);
+      rememberSchemaColumns(toolName, selectedDatabase, toolArgs, cached.result);
+      if (page) {
+        recordQuery(toolName, selectedDatabase, conversationContext.conversation_id, page, cached.result, 0, true);
+      }
+      const output = page
+        ? finishPage(toolName, selectedDatabase, conversationContext.conversation_id, page, cached.result)
+        : cached.result;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatToolResponse(toolName, output)
+              + `\n\n_Cached result from ${cached.createdAt}. Use quarri_cache with action "clear" to refresh._`
+              + getExpiryWarning(),
+          },
+        ],
+        ...buildUIResource(toolName, output),
+      };
+    }
+  }
+
+  // Execute tool via API
+  console.error(`${logTag} ${toolName} -> ${backendToolName}${runAsync ? ' (async)' : ''}`);
+  const startedAt = Date.now();
+  const result = await client.executeTool(
+    backendToolName,
+    toolArgs,
+    selectedDatabase,
+    conversationContext,
+    {
+      readOnly: READ_ONLY_TOOL_NAMES.has(toolName),
+      timeout: getToolTimeout(getCatalogToolDefinition(toolName), backendToolName),
+      signal: extra.signal,
+      onProgress,
+      async: runAsync,
+      maxRows: page?.pageSize,
+    }
+  );
+
+  if (!result.success) {
+    console.error(`${logTag} ${toolName} failed: ${result.error}`);
+  }
+
+  // Handle TOKEN_EXPIRED from server-side 401
+  if (!result.success && result.error === 'TOKEN_EXPIRED') {
+    return sessionExpiredResponse();
+  }
+
+  // The client cancelled the call (notifications/cancelled)
+  if (!result.success && result.error === 'CANCELLED') {
+    return cancelledResponse();
+  }
+
+  if (page) {
+    recordQuery(toolName, selectedDatabase, conversationContext.conversation_id, page, result, Date.now() - startedAt);
+  }
+
   // Format response based on tool type
   if (!result.success) {
     return {
@@ -508,41 +1667,352 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
   }
 
-  // Check for proactive expiry warning
-  let expiryWarning = '';
-  const expiryMinutes = getTokenExpiryMinutes();
-  if (expiryMinutes !== null && expiryMinutes > 0 && expiryMinutes <= 120) {
-    expiryWarning = `\n\n⚠️ Your Quarri session expires in ${expiryMinutes} minutes. Use quarri_request_reauth to renew.`;
+  // Backend accepted the job; side effects are reported when it finishes
+  if (runAsync && (typeof result.job_id === 'string' || typeof result.job_id === 'number')) {
+    const jobId = String(result.job_id);
+    const status = typeof result.status === 'string' ? result.status : 'queued';
+    trackJob(jobId, toolName, selectedDatabase, status);
+    console.error(`${logTag} ${toolName} started job ${jobId}`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            job_id: jobId,
+            status,
+            message: `${toolName} is running in the background. Use quarri_wait_for_job or quarri_get_job_status with job_id "${jobId}" to check on it.`,
+          }, null, 2),
+        },
+      ],
+    };
   }
 
-  // Build response with text and optional UI resource
-  const content: Array<{ type: string; text?: string; resource?: { uri: string; mimeType: string; text: string } }> = [
-    {
-      type: 'text',
-      text: formatToolResponse(name, result) + expiryWarning,
-    },
-  ];
+  await handleToolSideEffects(toolName, selectedDatabase);
+  rememberSchemaColumns(toolName, selectedDatabase, toolArgs, result);
 
-  // Add UI resource if available for this tool
-  const uiResourceContent = buildUIResource(name, result);
-  if (uiResourceContent) {
-    content.push(uiResourceContent);
+  if (cacheTtl !== undefined) {
+    writeCachedResult(toolName, selectedDatabase, toolArgs, result, cacheTtl);
   }
 
-  return { content };
+  const output = page
+    ? finishPage(toolName, selectedDatabase, conversationContext.conversation_id, page, result)
+    : result;
+
+  // Build response with text and the view payload for the tool's UI app
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatToolResponse(toolName, output) + getExpiryWarning(),
+      },
+    ],
+    ...buildUIResource(toolName, output),
+  };
 });
 
+// Backend tools that together describe one environment's data model
+const MODEL_DEFINITION_SOURCES = [
+  { tool: 'quarri_get_staging_lineage', args: { transformation_type: 'all' } },
+  { tool: 'quarri_get_relationships', args: { format: 'list' } },
+  { tool: 'quarri_get_schema', args: {} },
+];
+
+/**
+ * Batch steps fetching an environment's data model, plus any source tools
+ * the backend does not provide
+ */
+function modelDefinitionSteps(environment: string): {
+  steps: Array<{ name: string; args: Record<string, unknown> }>;
+  missing: string[];
+} {
+  const steps: Array<{ name: string; args: Record<string, unknown> }> = [];
+  const missing: string[] = [];
+  for (const source of MODEL_DEFINITION_SOURCES) {
+    const backendName = getCatalogBackendToolName(source.tool);
+    if (backendName) {
+      steps.push({ name: backendName, args: { ...source.args, environment } });
+    } else {
+      missing.push(source.tool);
+    }
+  }
+  return { steps, missing };
+}
+
+/**
+ * Build an environment's definition set from the results of its
+ * modelDefinitionSteps, with production schema names
+ */
+function parseModelDefinitions(results: Array<Record<string, unknown>>, environment: string): DefinitionSet {
+  const [lineage, relationships, schema] = results;
+  return normalizeSchemaReferences(parseDefinitionSet({
+    views: lineage.transformations ?? lineage.lineage,
+    relationships: relationships.relationships,
+    primary_keys: relationships.primary_keys,
+    schema: schema.schema ?? schema.columns ?? schema.tables,
+  }), environment);
+}
+
+/**
+ * Snapshot fields from a get_production_snapshot result, which may be nested
+ * under "snapshot"
+ */
+function getSnapshotPayload(result: Record<string, unknown>): Record<string, unknown> {
+  const snapshot = result.snapshot;
+  return typeof snapshot === 'object' && snapshot !== null && !Array.isArray(snapshot)
+    ? snapshot as Record<string, unknown>
+    : result;
+}
+
+/**
+ * e.g. "Snapshot 12 (2026-01-05T10:00:00Z, pre_promote)"
+ */
+function formatSnapshotTitle(snapshot: Record<string, unknown>, requestedId?: number): string {
+  const id = snapshot.id ?? snapshot.snapshot_id ?? requestedId;
+  const details = [snapshot.created_at, snapshot.trigger].filter((value) => typeof value === 'string' && value);
+  return (id === undefined ? 'Most recent snapshot' : `Snapshot ${id}`)
+    + (details.length > 0 ? ` (${details.join(', ')})` : '');
+}
+
+function missingModelSourcesResponse(toolName: string, missing: string[]) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatErrorResponse(`The backend does not provide ${missing.join(', ')}, which ${toolName} needs.`),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Append a query tool call to the local query history
+ */
+function recordQuery(
+  toolName: string,
+  databaseName: string,
+  conversationId: string,
+  page: PageRequest,
+  result: Record<string, unknown>,
+  durationMs: number,
+  cached = false
+): void {
+  appendQueryHistory({
+    tool: toolName,
+    database: databaseName,
+    environment: page.environment || 'production',
+    sql: page.sql,
+    ...(page.offset > 0 && { offset: page.offset }),
+    success: result.success !== false,
+    ...(typeof result.error === 'string' && { error: result.error }),
+    ...(Array.isArray(result.rows) && { row_count: Math.min(result.rows.length, page.pageSize) }),
+    duration_ms: durationMs,
+    ...(cached && { cached }),
+    conversation_id: conversationId,
+  });
+}
+
+/**
+ * Record a job status for a session job, sending the job tool's resource and
+ * prompt notifications the first time it is seen completed
+ */
+async function recordJobStatus(jobId: string, status: JobStatus): Promise<void> {
+  const justFinished = updateTrackedJob(jobId, status);
+  const job = getTrackedJob(jobId);
+  if (justFinished && job && ['completed', 'succeeded'].includes(status.status.toLowerCase())) {
+    await handleToolSideEffects(job.tool, job.database);
+  }
+}
+
+/**
+ * Format a job status; finished jobs show their result like the original tool would
+ */
+function formatJobStatus(jobId: string, status: JobStatus): string {
+  const job = getTrackedJob(jobId);
+  const heading = `Job ${jobId}${job ? ` (${job.tool})` : ''}: ${status.status}`;
+
+  if (!isJobFinished(status.status)) {
+    const { status: _status, ...details } = status;
+    return `${heading}\n\n${JSON.stringify(details, null, 2)}\n\nThe job is still running. Call quarri_wait_for_job to keep waiting.`;
+  }
+
+  if (typeof status.error === 'string') {
+    return `${heading}\n\n${formatErrorResponse(status.error)}`;
+  }
+
+  const result = typeof status.result === 'object' && status.result !== null
+    ? status.result as Record<string, unknown>
+    : status;
+  return `${heading}\n\n${formatToolResponse(job?.tool ?? '', result)}`;
+}
+
+/**
+ * Get the selected database, auto-selecting the first available one.
+ * Returns null when the user has no databases.
+ */
+function ensureDatabaseSelected(logTag: string): string | null {
+  const databaseName = getSelectedDatabase();
+  if (databaseName) {
+    return databaseName;
+  }
+
+  const credentials = loadCredentials();
+  if (!credentials || credentials.databases.length === 0) {
+    return null;
+  }
+
+  const firstDb = credentials.databases[0].database_name;
+  setSelectedDatabase(firstDb);
+  console.error(`${logTag} Auto-selected database: ${firstDb}`);
+  return firstDb;
+}
+
+/**
+ * Tool error returned when no database is available
+ */
+function noDatabaseResponse() {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: 'No database selected. Use quarri_list_databases to see available databases, then quarri_select_database to choose one.',
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Tool error returned when the backend rejects the session token
+ */
+function sessionExpiredResponse() {
+  const expiredEmail = loadExpiredEmail();
+  const hint = expiredEmail
+    ? `Use quarri_request_reauth to re-authenticate as ${expiredEmail}.`
+    : 'Use quarri_request_reauth to re-authenticate.';
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `Your Quarri session has expired. ${hint}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Tool error returned when the client cancels a call.
+ * The SDK drops responses to cancelled requests; this keeps the handler total.
+ */
+function cancelledResponse() {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: 'Tool call cancelled. The server was asked to stop any work still running.',
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Get the user's confirmation for a destructive tool call, by elicitation when
+ * the client supports it, otherwise by approval from the CLI.
+ * Returns null once confirmed, or the response to send instead.
+ */
+async function confirmToolCall(
+  toolName: string,
+  databaseName: string,
+  args: Record<string, unknown>,
+  signal: AbortSignal
+): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean } | null> {
+  if (consumeApprovedConfirmation(toolName, databaseName, args)) {
+    return null;
+  }
+
+  const summary = describeConfirmedCall(toolName, databaseName, args);
+
+  if (server.getClientCapabilities()?.elicitation?.form) {
+    try {
+      const result = await server.elicitInput({
+        message: `${summary}\n\nProceed?`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: 'Yes, run it',
+              description: 'Check to confirm this change',
+            },
+          },
+          required: ['confirm'],
+        },
+      }, { signal });
+      if (result.action === 'accept' && result.content?.confirm === true) {
+        return null;
+      }
+      // A refusal is final; don't offer another way to approve the same call
+      discardConfirmations(toolName, databaseName, args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `The user did not confirm ${toolName}. Nothing was changed.`,
+          },
+        ],
+        isError: true,
+      };
+    } catch (error) {
+      if (signal.aborted) {
+        return cancelledResponse();
+      }
+      console.error('Confirmation prompt failed, falling back to CLI approval:', error);
+    }
+  }
+
+  const code = requestConfirmation(toolName, databaseName, args);
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `⚠️ Confirmation required\n\n${summary}\n\nNothing was changed. Ask the user to review this and, if they want to go ahead, approve it in their own terminal with:\n\n  npx @quarri/claude-data-tools confirm ${code}\n\nOnce they say it is approved, call ${toolName} again with exactly the same arguments. Do not run the confirm command yourself. The approval expires in ${CONFIRMATION_TTL_MINUTES} minutes.`,
+      },
+    ],
+  };
+}
+
+/**
+ * Proactive warning appended to tool output when the token expires soon
+ */
+function getExpiryWarning(): string {
+  const expiryMinutes = getTokenExpiryMinutes();
+  if (expiryMinutes !== null && expiryMinutes > 0 && expiryMinutes <= 120) {
+    return `\n\n⚠️ Your Quarri session expires in ${expiryMinutes} minutes. Use quarri_request_reauth to renew.`;
+  }
+  return '';
+}
+
 /**
- * Build UI resource for a tool response
+ * Build the UI app fields for a tool response.
+ * The host renders the app linked via _meta.ui.resourceUri and hands it
+ * structuredContent; clients without MCP Apps support just use the text.
  */
 function buildUIResource(
-  _toolName: string,
-  _result: Record<string, unknown>
-): { type: string; resource: { uri: string; mimeType: string; text: string } } | null {
-  // UI resources disabled for now - Claude Desktop only supports text/html;profile=mcp-app
-  // Our custom MIME types (application/vnd.quarri.*+json) are not supported yet
-  // TODO: Re-enable when Claude Desktop adds support for custom MIME types
-  return null;
+  toolName: string,
+  result: Record<string, unknown>
+): { structuredContent: Record<string, unknown>; _meta: Record<string, unknown> } | Record<string, never> {
+  const resourceUri = TOOL_UI_MAPPING[toolName];
+  const view = buildToolView(toolName, result);
+  if (!resourceUri || !view) {
+    return {};
+  }
+
+  return {
+    structuredContent: view,
+    _meta: { ui: { resourceUri } },
+  };
 }
 
 /**
@@ -552,6 +2022,33 @@ function formatErrorResponse(error: string): string {
   return `Error: ${error}`;
 }
 
+// Rows shown from a query result that did not go through finishPage
+const UNPAGED_DISPLAY_ROWS = 20;
+
+/**
+ * Describe which rows of a paged query result are shown and how to get more
+ */
+function formatPageSummary(toolName: string, result: Record<string, unknown>, rowCount: number): string {
+  if (result.offset === undefined && !result.truncated) {
+    return '';
+  }
+
+  const first = (typeof result.offset === 'number' ? result.offset : 0) + 1;
+  const last = first + rowCount - 1;
+  const total = typeof result.total_rows === 'number' ? ` of ${result.total_rows}` : '';
+  let summary = `\n\nRows ${first}-${last}${total}.`;
+
+  if (typeof result.next_cursor === 'string') {
+    summary += ` More rows available: call ${toolName} with cursor "${result.next_cursor}" for the next page.`;
+  } else if (result.truncated) {
+    summary += ' Results were truncated; add filters or aggregate to see the rest.';
+  }
+  if (typeof result.paging_warning === 'string') {
+    summary += `\n⚠️ ${result.paging_warning}`;
+  }
+  return summary;
+}
+
 /**
  * Format tool response based on the tool type
  */
@@ -565,8 +2062,8 @@ function formatToolResponse(toolName: string, result: Record<string, unknown>):
     return parts.join('\n');
   }
 
-  // For execute_sql, format results as table if possible
-  if (toolName === 'quarri_execute_sql' && result.rows && Array.isArray(result.rows)) {
+  // For paged query tools, format results as table if possible
+  if (PAGED_QUERY_TOOLS.has(toolName) && result.rows && Array.isArray(result.rows)) {
     const rows = result.rows as Record<string, unknown>[];
     const columns = result.columns as string[] || (rows.length > 0 ? Object.keys(rows[0]) : []);
 
@@ -574,21 +2071,24 @@ function formatToolResponse(toolName: string, result: Record<string, unknown>):
       return 'No results returned.';
     }
 
-    // Format as simple text table
+    // Format as simple text table. Paged results (offset set by finishPage)
+    // are already one page; anything else is cut short.
+    const paged = result.offset !== undefined;
+    const shown = paged ? rows : rows.slice(0, UNPAGED_DISPLAY_ROWS);
     const header = columns.join(' | ');
     const separator = columns.map(() => '---').join(' | ');
-    const dataRows = rows.slice(0, 20).map(row =>
+    const dataRows = shown.map(row =>
       columns.map(col => String(row[col] ?? '')).join(' | ')
     );
 
     let output = `| ${header} |\n| ${separator} |\n`;
     output += dataRows.map(r => `| ${r} |`).join('\n');
 
-    if (rows.length > 20) {
-      output += `\n\n... and ${rows.length - 20} more rows`;
+    if (rows.length > shown.length) {
+      output += `\n\n... and ${rows.length - shown.length} more rows`;
     }
 
-    return output;
+    return output + formatPageSummary(toolName, result, shown.length);
   }
 
   // For schema, format nicely
@@ -646,16 +2146,47 @@ function formatToolResponse(toolName: string, result: Record<string, unknown>):
   return JSON.stringify(result, null, 2);
 }
 
+/**
+ * Refresh the tool catalog from the backend and notify the client if it changed
+ */
+async function syncToolCatalog(): Promise<void> {
+  if (!(await ensureAuthenticated())) {
+    return;
+  }
+
+  const result = await refreshToolCatalog(client);
+  if (!result.success) {
+    console.error(`Warning: Could not refresh tool catalog (${result.error}), using cached tools`);
+    return;
+  }
+
+  if (result.changed) {
+    try {
+      await server.sendToolListChanged();
+    } catch (error) {
+      console.error('Failed to send tool list change:', error);
+    }
+  }
+}
+
 /**
  * Main entry point
  */
 async function main(): Promise<void> {
+  // Start from the cached catalog so tools are available offline
+  loadCachedToolCatalog();
+
   // Create transport and connect immediately - don't block on health check
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
   console.error('Quarri MCP server started');
 
+  // Non-blocking catalog refresh after server is ready
+  syncToolCatalog().catch(() => {
+    console.error('Warning: Tool catalog refresh failed');
+  });
+
   // Non-blocking health check after server is ready
   client.healthCheck().then((health) => {
     if (!health.success) {
@@ -0,0 +1,202 @@
+/**
+ * MCP prompts generated from backend-saved skills
+ * Skills created with quarri_create_skill (local and shared) are listed per
+ * database and exposed as prompts alongside the bundled skills/ prompts
+ */
+
+import { QuarriApiClient } from '../api/client.js';
+import { getCatalogBackendToolName } from '../tools/catalog.js';
+import { PromptArgument } from './skills.js';
+
+// Prefix keeps saved skill prompts apart from the bundled quarri-* prompts
+export const SAVED_SKILL_PROMPT_PREFIX = 'skill-';
+
+// Tools whose success changes the saved skill list
+export const SKILL_MUTATING_TOOLS = [
+  'quarri_create_skill',
+  'quarri_update_skill',
+  'quarri_restore_skill_version',
+  'quarri_delete_skill',
+];
+
+const CONTEXT_ARGUMENT: PromptArgument = {
+  name: 'context',
+  description: 'The task or situation to apply this skill to',
+  required: false,
+};
+
+interface SavedSkill {
+  id?: number;
+  shared_id?: number;
+  shared?: boolean;
+  skill_name: string;
+  category?: string;
+  description?: string;
+  steps?: string;
+  prerequisites?: string;
+  example_context?: string;
+  tags?: string[];
+  related_tools?: string[];
+}
+
+export interface SavedSkillPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  skillName: string;
+}
+
+// Saved skill prompts per database, filled lazily and on refresh
+const savedSkillCache = new Map<string, SavedSkillPrompt[]>();
+
+/**
+ * Turn a skill name into a prompt name (e.g. "Stripe pipeline" -> "skill-stripe-pipeline")
+ */
+export function toSavedSkillPromptName(skillName: string): string {
+  const slug = skillName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${SAVED_SKILL_PROMPT_PREFIX}${slug}`;
+}
+
+function toPrompt(skill: SavedSkill): SavedSkillPrompt {
+  const scope = skill.shared ? 'Shared skill' : 'Saved skill';
+  const category = skill.category ? ` (${skill.category})` : '';
+  return {
+    name: toSavedSkillPromptName(skill.skill_name),
+    description: `${scope}${category}: ${skill.description || skill.skill_name}`,
+    arguments: [CONTEXT_ARGUMENT],
+    skillName: skill.skill_name,
+  };
+}
+
+/**
+ * Fetch saved skills for a database from the backend and update the cache.
+ * Without skill tools in the catalog there are no saved skill prompts.
+ */
+export async function refreshSavedSkillPrompts(
+  client: QuarriApiClient,
+  database: string
+): Promise<{ success: boolean; error?: string; prompts: SavedSkillPrompt[] }> {
+  const listTool = getCatalogBackendToolName('quarri_list_skills');
+  if (!listTool || !getCatalogBackendToolName('quarri_get_skill')) {
+    return { success: true, prompts: [] };
+  }
+
+  const result = await client.executeTool(listTool, {}, database, undefined, { readOnly: true });
+  if (!result.success) {
+    return { success: false, error: result.error, prompts: savedSkillCache.get(database) ?? [] };
+  }
+
+  const skills = (Array.isArray(result.skills) ? result.skills : []) as SavedSkill[];
+  const seen = new Set<string>();
+  const prompts: SavedSkillPrompt[] = [];
+
+  // First occurrence wins when a local and a shared skill slug to the same name
+  for (const skill of skills) {
+    if (typeof skill.skill_name !== 'string' || !skill.skill_name.trim()) continue;
+    const prompt = toPrompt(skill);
+    if (seen.has(prompt.name)) continue;
+    seen.add(prompt.name);
+    prompts.push(prompt);
+  }
+
+  savedSkillCache.set(database, prompts);
+  return { success: true, prompts };
+}
+
+/**
+ * Get saved skill prompts for a database, fetching them on first use
+ */
+export async function getSavedSkillPrompts(
+  client: QuarriApiClient,
+  database: string
+): Promise<SavedSkillPrompt[]> {
+  const cached = savedSkillCache.get(database);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await refreshSavedSkillPrompts(client, database);
+  if (!result.success) {
+    console.error(`Failed to load saved skills: ${result.error}`);
+  }
+  return result.prompts;
+}
+
+/**
+ * Get the cached saved skill prompts for a database without fetching
+ */
+export function getCachedSavedSkillPrompts(database: string): SavedSkillPrompt[] | undefined {
+  return savedSkillCache.get(database);
+}
+
+/**
+ * Check whether two prompt lists advertise the same prompts
+ */
+export function samePromptList(a: SavedSkillPrompt[], b: SavedSkillPrompt[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((prompt, i) => prompt.name === b[i].name && prompt.description === b[i].description)
+  );
+}
+
+/**
+ * Fetch a saved skill's full procedure and render it as prompt text
+ */
+export async function renderSavedSkillPrompt(
+  client: QuarriApiClient,
+  database: string,
+  prompt: SavedSkillPrompt,
+  args: Record<string, string>
+): Promise<{ success: boolean; error?: string; text?: string }> {
+  const getTool = getCatalogBackendToolName('quarri_get_skill');
+  if (!getTool) {
+    return { success: false, error: 'The backend does not provide quarri_get_skill' };
+  }
+
+  const result = await client.executeTool(
+    getTool,
+    { skill_name: prompt.skillName },
+    database,
+    undefined,
+    { readOnly: true }
+  );
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  const skill = (result.skill ?? result) as SavedSkill;
+  const sections = [`# ${skill.skill_name || prompt.skillName}`];
+
+  if (skill.description) {
+    sections.push(skill.description);
+  }
+  if (skill.example_context) {
+    sections.push(`## When to Use\n\n${skill.example_context}`);
+  }
+  if (skill.prerequisites) {
+    sections.push(`## Prerequisites\n\n${skill.prerequisites}`);
+  }
+  if (skill.steps) {
+    sections.push(`## Steps\n\n${skill.steps}`);
+  }
+  if (skill.related_tools && skill.related_tools.length > 0) {
+    sections.push(`## Related Tools\n\n${skill.related_tools.map((t) => `- ${t}`).join('\n')}`);
+  }
+
+  const skillId = skill.id ?? null;
+  if (skillId !== null) {
+    sections.push(
+      `After following this skill, call quarri_record_skill_usage with skill_id ${skillId} and whether it succeeded.`
+    );
+  }
+
+  const context = args.context?.trim();
+  if (context) {
+    sections.push(`---\n\nApply this skill to the following:\n${context}`);
+  }
+
+  return { success: true, text: sections.join('\n\n') };
+}
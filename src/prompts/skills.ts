@@ -0,0 +1,168 @@
+/**
+ * MCP prompts generated from the bundled skills/ directory
+ * Each skills/quarri-<name>/SKILL.md becomes a prompt so MCP hosts other than
+ * Claude Code get the same workflows as the slash commands
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// dist/prompts/skills.js -> <package root>/skills
+const SKILLS_DIR = path.resolve(__dirname, '..', '..', 'skills');
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface SkillPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  body: string;
+}
+
+type FrontMatterValue = string | boolean | Array<Record<string, string | boolean>>;
+
+/**
+ * Parse a scalar front matter value
+ */
+function parseScalar(raw: string): string | boolean {
+  const value = raw.trim();
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (
+    value.length >= 2 &&
+    ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'")))
+  ) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+/**
+ * Parse the subset of YAML used in SKILL.md front matter:
+ * top-level scalars and lists of flat maps (for arguments)
+ */
+export function parseFrontMatter(content: string): {
+  attributes: Record<string, FrontMatterValue>;
+  body: string;
+} {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, body: content };
+  }
+
+  const attributes: Record<string, FrontMatterValue> = {};
+  let currentList: Array<Record<string, string | boolean>> | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const item = line.match(/^\s+-\s+([\w-]+):\s*(.*)$/);
+    if (item && currentList) {
+      currentList.push({ [item[1]]: parseScalar(item[2]) });
+      continue;
+    }
+
+    const nested = line.match(/^\s+([\w-]+):\s*(.*)$/);
+    if (nested && currentList && currentList.length > 0) {
+      currentList[currentList.length - 1][nested[1]] = parseScalar(nested[2]);
+      continue;
+    }
+
+    const top = line.match(/^([\w-]+):\s*(.*)$/);
+    if (top) {
+      if (top[2].trim() === '' && top[1] === 'arguments') {
+        currentList = [];
+        attributes[top[1]] = currentList;
+      } else {
+        currentList = null;
+        attributes[top[1]] = parseScalar(top[2]);
+      }
+    }
+  }
+
+  return { attributes, body: content.slice(match[0].length) };
+}
+
+/**
+ * Load a single skill directory as a prompt
+ */
+function loadSkillPrompt(name: string): SkillPrompt | null {
+  const file = path.join(SKILLS_DIR, name, 'SKILL.md');
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  const { attributes, body } = parseFrontMatter(fs.readFileSync(file, 'utf-8'));
+  const args = Array.isArray(attributes.arguments) ? attributes.arguments : [];
+
+  return {
+    name,
+    description: typeof attributes.description === 'string' ? attributes.description : name,
+    arguments: args
+      .filter((arg) => typeof arg.name === 'string')
+      .map((arg) => ({
+        name: arg.name as string,
+        ...(typeof arg.description === 'string' && { description: arg.description }),
+        required: arg.required === true,
+      })),
+    body: body.trim(),
+  };
+}
+
+let cachedPrompts: SkillPrompt[] | null = null;
+
+/**
+ * Load all bundled skills as prompts (cached after first read)
+ */
+export function loadSkillPrompts(): SkillPrompt[] {
+  if (cachedPrompts) {
+    return cachedPrompts;
+  }
+
+  try {
+    cachedPrompts = fs
+      .readdirSync(SKILLS_DIR, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && entry.name.startsWith('quarri-'))
+      .map((entry) => loadSkillPrompt(entry.name))
+      .filter((prompt): prompt is SkillPrompt => prompt !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Failed to load skills:', error);
+    cachedPrompts = [];
+  }
+
+  return cachedPrompts;
+}
+
+/**
+ * Find the missing required arguments for a prompt
+ */
+export function getMissingArguments(
+  prompt: { arguments: PromptArgument[] },
+  args: Record<string, string>
+): string[] {
+  return prompt.arguments
+    .filter((arg) => arg.required && !args[arg.name]?.trim())
+    .map((arg) => arg.name);
+}
+
+/**
+ * Render a prompt's message text: the skill instructions followed by the
+ * arguments the user supplied
+ */
+export function renderPromptText(
+  prompt: { name: string; arguments: PromptArgument[]; body: string },
+  args: Record<string, string>
+): string {
+  const supplied = prompt.arguments.filter((arg) => args[arg.name]?.trim());
+  if (supplied.length === 0) {
+    return prompt.body;
+  }
+
+  const request = supplied.map((arg) => `- ${arg.name}: ${args[arg.name].trim()}`).join('\n');
+  return `${prompt.body}\n\n---\n\nApply the /${prompt.name} workflow above to this request:\n${request}`;
+}
@@ -0,0 +1,233 @@
+/**
+ * Data-backed MCP resources for Quarri
+ * Exposes per-database context (schema, metrics, rules, relationships) as
+ * quarri://{database}/{kind} resources backed by the existing backend tools,
+ * plus quarri://{database}/{kind}/{id} templates for single tables and metrics
+ */
+
+import { QuarriApiClient } from '../api/client.js';
+import { getCatalogBackendToolName } from '../tools/catalog.js';
+
+export const DATA_RESOURCE_SCHEME = 'quarri://';
+export const DATA_RESOURCE_MIME_TYPE = 'application/json';
+
+export interface DataResourceKind {
+  kind: string;
+  name: string;
+  description: string;
+  // MCP tool that reads the resource; its backend name comes from the catalog
+  tool: string;
+}
+
+export const DATA_RESOURCE_KINDS: DataResourceKind[] = [
+  {
+    kind: 'schema',
+    name: 'Schema',
+    description: 'Columns and types available in quarri.schema',
+    tool: 'quarri_get_schema',
+  },
+  {
+    kind: 'metrics',
+    name: 'Metrics',
+    description: 'Defined metrics and their SQL templates',
+    tool: 'quarri_get_metrics',
+  },
+  {
+    kind: 'rules',
+    name: 'Rules',
+    description: 'Query generation rules (business logic and column semantics)',
+    tool: 'quarri_list_rules',
+  },
+  {
+    kind: 'relationships',
+    name: 'Relationships',
+    description: 'Table relationships and primary keys used by quarri.schema',
+    tool: 'quarri_get_relationships',
+  },
+];
+
+export interface DataResourceTemplate {
+  kind: string;
+  name: string;
+  description: string;
+  idParam: string;
+  tool: string;
+  // Null when the id is not valid for this kind
+  buildArgs: (id: string) => Record<string, unknown> | null;
+}
+
+export const DATA_RESOURCE_TEMPLATES: DataResourceTemplate[] = [
+  {
+    kind: 'tables',
+    name: 'Table',
+    description: 'Columns and types for a single table in quarri.schema',
+    idParam: 'table',
+    tool: 'quarri_get_schema',
+    buildArgs: (table) => ({ table_filter: table }),
+  },
+  {
+    kind: 'metrics',
+    name: 'Metric',
+    description: 'Definition, SQL template and dimensions of a single metric',
+    idParam: 'id',
+    tool: 'quarri_get_metric_detail',
+    buildArgs: (id) => (/^[0-9]+$/.test(id) ? { metric_id: Number(id) } : null),
+  },
+];
+
+// Resource kinds whose contents change when each mutating tool succeeds.
+// 'tables' and 'metrics' also cover the per-item template URIs.
+export const RESOURCE_INVALIDATIONS: Record<string, string[]> = {
+  quarri_refresh_schema: ['schema', 'tables', 'relationships'],
+  quarri_generate_quarri_schema: ['schema', 'tables'],
+  quarri_execute_ddl: ['schema', 'tables'],
+  quarri_set_relationship: ['relationships'],
+  quarri_detect_relationships: ['relationships'],
+  quarri_create_metric: ['metrics'],
+  quarri_approve_metric: ['metrics'],
+  quarri_create_rule: ['rules'],
+  quarri_update_rule: ['rules'],
+  quarri_delete_rule: ['rules'],
+  quarri_promote_environment: ['schema', 'tables', 'metrics', 'rules', 'relationships'],
+  quarri_rollback_production: ['schema', 'tables', 'metrics', 'rules', 'relationships'],
+};
+
+export interface DataResourceRef {
+  database: string;
+  kind: string;
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Build the URI for a database resource
+ */
+export function buildDataResourceUri(database: string, kind: string): string {
+  return `${DATA_RESOURCE_SCHEME}${encodeURIComponent(database)}/${kind}`;
+}
+
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    // Malformed percent-escape
+    return null;
+  }
+}
+
+/**
+ * Parse a quarri://{database}/{kind} or quarri://{database}/{kind}/{id} URI.
+ * Returns null for anything else, including malformed escapes and ids.
+ */
+export function parseDataResourceUri(uri: string): DataResourceRef | null {
+  if (!uri.startsWith(DATA_RESOURCE_SCHEME)) {
+    return null;
+  }
+
+  const segments = uri.slice(DATA_RESOURCE_SCHEME.length).split('/');
+  if (!segments[0] || segments.some((s) => s === '')) {
+    return null;
+  }
+  const database = decodeSegment(segments[0]);
+  if (database === null) {
+    return null;
+  }
+
+  if (segments.length === 2) {
+    const kind = DATA_RESOURCE_KINDS.find((k) => k.kind === segments[1]);
+    return kind ? { database, kind: kind.kind, tool: kind.tool, args: {} } : null;
+  }
+
+  if (segments.length === 3) {
+    const template = DATA_RESOURCE_TEMPLATES.find((t) => t.kind === segments[1]);
+    const id = decodeSegment(segments[2]);
+    const args = template && id !== null ? template.buildArgs(id) : null;
+    return template && args ? { database, kind: template.kind, tool: template.tool, args } : null;
+  }
+
+  return null;
+}
+
+/**
+ * List the resource templates advertised via resources/templates/list
+ */
+export function listDataResourceTemplates(): Array<{
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}> {
+  const kinds = DATA_RESOURCE_KINDS.map((kind) => ({
+    uriTemplate: `${DATA_RESOURCE_SCHEME}{database}/${kind.kind}`,
+    name: kind.name,
+    description: kind.description,
+    mimeType: DATA_RESOURCE_MIME_TYPE,
+  }));
+  const items = DATA_RESOURCE_TEMPLATES.map((template) => ({
+    uriTemplate: `${DATA_RESOURCE_SCHEME}{database}/${template.kind}/{${template.idParam}}`,
+    name: template.name,
+    description: template.description,
+    mimeType: DATA_RESOURCE_MIME_TYPE,
+  }));
+  return [...kinds, ...items];
+}
+
+/**
+ * Get the subscribed URIs invalidated by a successful tool call on a database
+ */
+export function getInvalidatedResourceUris(
+  toolName: string,
+  database: string,
+  subscribedUris: Iterable<string>
+): string[] {
+  const kinds = RESOURCE_INVALIDATIONS[toolName];
+  if (!kinds) {
+    return [];
+  }
+
+  return Array.from(subscribedUris).filter((uri) => {
+    const ref = parseDataResourceUri(uri);
+    return ref !== null && ref.database === database && kinds.includes(ref.kind);
+  });
+}
+
+/**
+ * List the data resources for each accessible database
+ */
+export function listDataResources(
+  databases: Array<{ database_name: string; display_name: string }>
+): Array<{ uri: string; name: string; description: string; mimeType: string }> {
+  return databases.flatMap((db) =>
+    DATA_RESOURCE_KINDS.map((kind) => ({
+      uri: buildDataResourceUri(db.database_name, kind.kind),
+      name: `${db.display_name || db.database_name} ${kind.name}`,
+      description: kind.description,
+      mimeType: DATA_RESOURCE_MIME_TYPE,
+    }))
+  );
+}
+
+/**
+ * Fetch the contents of a data resource from the backend
+ */
+export async function readDataResource(
+  client: QuarriApiClient,
+  ref: DataResourceRef
+): Promise<{ success: boolean; error?: string; text?: string }> {
+  const backendTool = getCatalogBackendToolName(ref.tool);
+  if (!backendTool) {
+    return { success: false, error: `The backend does not provide ${ref.tool}` };
+  }
+
+  const result = await client.executeTool(backendTool, ref.args, ref.database, undefined, {
+    readOnly: true,
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error || 'Unknown error' };
+  }
+
+  // Drop the transport-level success flag, keep the payload
+  const { success: _success, ...payload } = result;
+  return { success: true, text: JSON.stringify(payload, null, 2) };
+}
@@ -0,0 +1,99 @@
+/**
+ * Step parsing for the quarri_batch meta-tool
+ * Each step names an MCP tool from the merged catalog; steps are validated
+ * locally and translated to backend tool names before one /api/cli/batch call.
+ */
+
+import { CONVERSATION_CONTEXT_ARG } from './conversation.js';
+import { LOCAL_TOOL_NAMES } from './definitions.js';
+import { getCatalogBackendToolName, getCatalogToolDefinition } from './catalog.js';
+import { requiresConfirmation } from './confirmation.js';
+import { isToolBlocked } from './read-only.js';
+import { lintToolCall } from './sql-lint.js';
+import { getToolTimeout } from './timeouts.js';
+import { validateToolArguments } from './validation.js';
+
+export const MAX_BATCH_STEPS = 20;
+
+export interface BatchStep {
+  tool: string;
+  backendName: string;
+  args: Record<string, unknown>;
+  timeout?: number;
+}
+
+/**
+ * Parse and validate raw batch steps. quarri_execute_sql steps get the same
+ * local SQL checks as direct calls against the selected database.
+ * Returns the resolved steps, or a list of problems (one per bad step).
+ */
+export function parseBatchSteps(
+  rawSteps: unknown[],
+  databaseName: string
+): { steps: BatchStep[]; errors: string[] } {
+  const steps: BatchStep[] = [];
+  const errors: string[] = [];
+
+  if (rawSteps.length === 0) {
+    return { steps, errors: ['\'steps\' must contain at least one tool call'] };
+  }
+  if (rawSteps.length > MAX_BATCH_STEPS) {
+    return { steps, errors: [`'steps' has ${rawSteps.length} entries, maximum is ${MAX_BATCH_STEPS}`] };
+  }
+
+  rawSteps.forEach((raw, index) => {
+    const label = `steps[${index}]`;
+    const step = raw as { tool?: unknown; args?: unknown };
+
+    if (typeof step.tool !== 'string' || !step.tool) {
+      errors.push(`${label}: 'tool' must be an MCP tool name`);
+      return;
+    }
+    if (LOCAL_TOOL_NAMES.has(step.tool)) {
+      errors.push(`${label}: ${step.tool} is a session tool and cannot be batched`);
+      return;
+    }
+
+    const definition = getCatalogToolDefinition(step.tool);
+    const backendName = getCatalogBackendToolName(step.tool);
+    if (!definition || !backendName) {
+      errors.push(`${label}: unknown tool '${step.tool}'`);
+      return;
+    }
+    if (isToolBlocked(definition)) {
+      errors.push(`${label}: ${step.tool} changes data and is disabled in read-only mode`);
+      return;
+    }
+    if (requiresConfirmation(step.tool)) {
+      errors.push(`${label}: ${step.tool} needs the user's confirmation and cannot be batched; call it directly`);
+      return;
+    }
+
+    if (step.args !== undefined && (typeof step.args !== 'object' || step.args === null || Array.isArray(step.args))) {
+      errors.push(`${label}: 'args' must be an object`);
+      return;
+    }
+
+    // Conversation context belongs to the batch request, not to individual steps
+    const { [CONVERSATION_CONTEXT_ARG]: _context, ...args } = (step.args ?? {}) as Record<string, unknown>;
+    const argErrors = validateToolArguments(definition, args);
+    if (argErrors.length > 0) {
+      errors.push(...argErrors.map((e) => `${label} (${step.tool}): ${e}`));
+      return;
+    }
+    const problems = lintToolCall(step.tool, databaseName, args);
+    if (problems.length > 0) {
+      errors.push(...problems.map((problem) => `${label} (${step.tool}): ${problem}`));
+      return;
+    }
+
+    steps.push({
+      tool: step.tool,
+      backendName,
+      args,
+      timeout: getToolTimeout(definition, backendName),
+    });
+  });
+
+  return { steps, errors };
+}
@@ -0,0 +1,211 @@
+/**
+ * Dynamic tool catalog for the MCP server
+ * Merges the backend /api/cli/tools catalog with the local TOOL_DEFINITIONS,
+ * which act as overrides (hand-tuned descriptions, UI metadata). The last
+ * backend catalog is cached in ~/.quarri/tool-catalog.json for offline startup.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { QuarriApiClient } from '../api/client.js';
+import { QUARRI_DIR, ensureQuarriDir } from '../auth/token-store.js';
+import {
+  TOOL_DEFINITIONS,
+  TOOL_NAME_MAP,
+  LOCAL_TOOL_NAMES,
+  ToolDefinition,
+  ToolParameter,
+  isMutatingToolName,
+} from './definitions.js';
+
+const CATALOG_CACHE_FILE = path.join(QUARRI_DIR, 'tool-catalog.json');
+const MCP_TOOL_PREFIX = 'quarri_';
+
+interface BackendTool {
+  name: string;
+  description?: string;
+  category?: string;
+  input_schema?: BackendInputSchema;
+  inputSchema?: BackendInputSchema;
+  parameters?: BackendInputSchema;
+  mutates?: boolean;
+}
+
+interface BackendInputSchema {
+  type?: string;
+  properties?: Record<string, ToolParameter>;
+  required?: string[];
+}
+
+interface CatalogCache {
+  fetchedAt: string;
+  tools: BackendTool[];
+}
+
+// Local definitions, classified from READ_ONLY_TOOL_NAMES / RECORDING_TOOL_NAMES
+const LOCAL_CATALOG: ToolDefinition[] = TOOL_DEFINITIONS.map((tool) => ({
+  ...tool,
+  mutates: isMutatingToolName(tool.name),
+}));
+
+// Backend tools from the last successful fetch (or the disk cache), null if never loaded
+let backendTools: BackendTool[] | null = null;
+let catalog: ToolDefinition[] = LOCAL_CATALOG;
+let backendNameMap: Record<string, string> = { ...TOOL_NAME_MAP };
+
+/**
+ * Validate the raw /api/cli/tools payload
+ */
+function parseBackendTools(raw: unknown): BackendTool[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter(
+    (tool): tool is BackendTool =>
+      typeof tool === 'object' && tool !== null && typeof (tool as BackendTool).name === 'string'
+  );
+}
+
+/**
+ * Get the MCP name for a backend tool
+ */
+function toMcpToolName(backendName: string): string {
+  return backendName.startsWith(MCP_TOOL_PREFIX) ? backendName : `${MCP_TOOL_PREFIX}${backendName}`;
+}
+
+/**
+ * Convert a backend tool into an MCP tool definition
+ */
+function toToolDefinition(tool: BackendTool): ToolDefinition {
+  const schema = tool.input_schema ?? tool.inputSchema ?? tool.parameters ?? {};
+  return {
+    name: toMcpToolName(tool.name),
+    description: tool.description || tool.name,
+    category: tool.category || 'backend',
+    inputSchema: {
+      type: 'object',
+      properties: schema.properties ?? {},
+      required: Array.isArray(schema.required) ? schema.required : [],
+    },
+    // Unclassified backend tools count as mutating so read-only mode fails closed
+    mutates: tool.mutates !== false,
+  };
+}
+
+/**
+ * Rebuild the merged catalog from the current backend tool list
+ */
+function rebuildCatalog(): void {
+  if (!backendTools || backendTools.length === 0) {
+    catalog = LOCAL_CATALOG;
+    backendNameMap = { ...TOOL_NAME_MAP };
+    return;
+  }
+
+  const backendByMcpName = new Map<string, BackendTool>();
+  for (const tool of backendTools) {
+    // Resolve through TOOL_NAME_MAP first so renamed tools keep their local override
+    const mcpName = Object.keys(TOOL_NAME_MAP).find((k) => TOOL_NAME_MAP[k] === tool.name)
+      ?? toMcpToolName(tool.name);
+    backendByMcpName.set(mcpName, tool);
+  }
+
+  const nameMap: Record<string, string> = {};
+  const merged: ToolDefinition[] = [];
+
+  // Local definitions win, but backend-routed ones are dropped once the backend stops serving them
+  for (const local of LOCAL_CATALOG) {
+    const backend = backendByMcpName.get(local.name);
+    if (LOCAL_TOOL_NAMES.has(local.name)) {
+      merged.push(local);
+      if (TOOL_NAME_MAP[local.name]) {
+        nameMap[local.name] = TOOL_NAME_MAP[local.name];
+      }
+    } else if (backend) {
+      merged.push(local);
+      nameMap[local.name] = backend.name;
+      backendByMcpName.delete(local.name);
+    }
+  }
+
+  // Tools the backend added that have no local override
+  for (const [mcpName, tool] of backendByMcpName) {
+    merged.push({ ...toToolDefinition(tool), name: mcpName });
+    nameMap[mcpName] = tool.name;
+  }
+
+  catalog = merged;
+  backendNameMap = nameMap;
+}
+
+/**
+ * Load the cached backend catalog from disk so startup works offline
+ */
+export function loadCachedToolCatalog(): void {
+  try {
+    if (!fs.existsSync(CATALOG_CACHE_FILE)) {
+      return;
+    }
+    const cache = JSON.parse(fs.readFileSync(CATALOG_CACHE_FILE, 'utf-8')) as CatalogCache;
+    backendTools = parseBackendTools(cache.tools);
+    rebuildCatalog();
+  } catch (error) {
+    console.error('Failed to load cached tool catalog:', error);
+  }
+}
+
+/**
+ * Fetch the backend catalog, cache it, and rebuild the merged tool list.
+ * Returns whether the advertised tool list changed.
+ */
+export async function refreshToolCatalog(
+  client: QuarriApiClient
+): Promise<{ success: boolean; error?: string; changed: boolean }> {
+  const result = await client.listTools();
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error, changed: false };
+  }
+
+  const fetched = parseBackendTools(result.data.tools);
+  if (fetched.length === 0) {
+    return { success: false, error: 'Backend returned an empty tool catalog', changed: false };
+  }
+
+  const changed = JSON.stringify(fetched) !== JSON.stringify(backendTools);
+  backendTools = fetched;
+
+  if (changed) {
+    rebuildCatalog();
+    try {
+      ensureQuarriDir();
+      const cache: CatalogCache = { fetchedAt: new Date().toISOString(), tools: fetched };
+      fs.writeFileSync(CATALOG_CACHE_FILE, JSON.stringify(cache, null, 2), { mode: 0o600 });
+    } catch (error) {
+      console.error('Failed to cache tool catalog:', error);
+    }
+  }
+
+  return { success: true, changed };
+}
+
+/**
+ * Get the merged tool list advertised to MCP clients
+ */
+export function getToolCatalog(): ToolDefinition[] {
+  return catalog;
+}
+
+/**
+ * Get a tool definition from the merged catalog
+ */
+export function getCatalogToolDefinition(name: string): ToolDefinition | undefined {
+  return catalog.find((t) => t.name === name);
+}
+
+/**
+ * Get the backend tool name for an MCP tool in the merged catalog
+ */
+export function getCatalogBackendToolName(mcpToolName: string): string | null {
+  return backendNameMap[mcpToolName] ?? null;
+}
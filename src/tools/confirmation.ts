@@ -0,0 +1,159 @@
+/**
+ * Confirmation gate for destructive tools
+ * These tools only reach the backend once the user has explicitly confirmed
+ * them. Clients that support MCP elicitation get a yes/no form showing what
+ * will be affected. For other clients the call is parked under a short code in
+ * ~/.quarri/pending-confirmations.json and the user approves it in a terminal
+ * with `npx @quarri/claude-data-tools confirm <code>`; the model then repeats
+ * the call. The model never sees anything it could use to approve a call
+ * itself. Approvals are single-use, expire after a few minutes and only match
+ * the exact tool, database and arguments they were issued for.
+ */
+
+import { createHash, randomInt } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { QUARRI_DIR, ensureQuarriDir } from '../auth/token-store.js';
+import { stableStringify } from './result-cache.js';
+
+const PENDING_FILE = path.join(QUARRI_DIR, 'pending-confirmations.json');
+
+export const CONFIRMATION_TTL_MINUTES = 5;
+const CONFIRMATION_TTL = CONFIRMATION_TTL_MINUTES * 60 * 1000;
+// No 0/O or 1/I so codes are easy to read back and type
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+type Args = Record<string, unknown>;
+
+// Describes what a confirmed tool call will affect
+const CONFIRMATION_SUMMARIES: Record<string, (args: Args) => string> = {
+  quarri_delete_environment: (args) =>
+    `Delete environment '${args.environment_name}' with all of its staging, silver and main views, relationships and generated schema.`,
+  quarri_rollback_production: (args) => (args.snapshot_id
+    ? `Replace current production with snapshot ${args.snapshot_id}.`
+    : 'Replace current production with the most recent production snapshot.')
+    + ' Production views, relationships and quarri.schema are restored from the snapshot.',
+  quarri_promote_environment: (args) =>
+    `Promote environment '${args.environment_name}' to production: its views are re-created in production, relationships are copied and quarri.schema is regenerated.`,
+  quarri_delete_skill: (args) => `Delete skill ${args.skill_id} and its version history.`,
+  quarri_delete_content: (args) => `Delete content ${args.content_id} and its versions and sharing settings.`,
+  quarri_execute_dml: (args) =>
+    `Run DML in environment '${args.environment}':\n\n${args.sql}`
+    + (typeof args.description === 'string' && args.description ? `\n\nPurpose: ${args.description}` : ''),
+};
+
+export interface PendingConfirmation {
+  fingerprint: string;
+  summary: string;
+  expiresAt: number;
+  approved: boolean;
+}
+
+type PendingConfirmations = Record<string, PendingConfirmation>;
+
+// Shared with the CLI process, so read from disk on every use
+function loadPending(): PendingConfirmations {
+  if (!fs.existsSync(PENDING_FILE)) {
+    return {};
+  }
+  try {
+    const pending = JSON.parse(fs.readFileSync(PENDING_FILE, 'utf-8')) as PendingConfirmations;
+    const now = Date.now();
+    return Object.fromEntries(Object.entries(pending).filter(([, entry]) => entry.expiresAt >= now));
+  } catch (error) {
+    console.error('Failed to read pending confirmations:', error);
+    return {};
+  }
+}
+
+function savePending(pending: PendingConfirmations): void {
+  ensureQuarriDir();
+  fs.writeFileSync(PENDING_FILE, JSON.stringify(pending, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Whether a tool needs user confirmation before it runs
+ */
+export function requiresConfirmation(toolName: string): boolean {
+  return toolName in CONFIRMATION_SUMMARIES;
+}
+
+/**
+ * Summarize what a confirmed tool call will do
+ */
+export function describeConfirmedCall(toolName: string, databaseName: string, args: Args): string {
+  const summary = CONFIRMATION_SUMMARIES[toolName]?.(args) ?? `Run ${toolName}.`;
+  return `${toolName} on database '${databaseName}'\n\n${summary}`;
+}
+
+function fingerprint(toolName: string, databaseName: string, args: Args): string {
+  return createHash('sha256').update(stableStringify({ toolName, databaseName, args })).digest('hex');
+}
+
+/**
+ * Park this exact call until the user approves it from the CLI.
+ * Returns the code the user passes to the confirm command.
+ */
+export function requestConfirmation(toolName: string, databaseName: string, args: Args): string {
+  const pending = loadPending();
+  const code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+  pending[code] = {
+    fingerprint: fingerprint(toolName, databaseName, args),
+    summary: describeConfirmedCall(toolName, databaseName, args),
+    expiresAt: Date.now() + CONFIRMATION_TTL,
+    approved: false,
+  };
+  savePending(pending);
+  return code;
+}
+
+/**
+ * Look up a call waiting for approval
+ */
+export function getPendingConfirmation(code: string): PendingConfirmation | undefined {
+  return loadPending()[code.trim().toUpperCase()];
+}
+
+/**
+ * Approve a waiting call. The approval expires CONFIRMATION_TTL_MINUTES later.
+ */
+export function approveConfirmation(code: string): boolean {
+  const normalized = code.trim().toUpperCase();
+  const pending = loadPending();
+  if (!pending[normalized]) {
+    return false;
+  }
+  pending[normalized] = { ...pending[normalized], approved: true, expiresAt: Date.now() + CONFIRMATION_TTL };
+  savePending(pending);
+  return true;
+}
+
+/**
+ * Check for an approval of this exact call. A matching approval is used up.
+ */
+export function consumeApprovedConfirmation(toolName: string, databaseName: string, args: Args): boolean {
+  const pending = loadPending();
+  const target = fingerprint(toolName, databaseName, args);
+  const code = Object.keys(pending).find((key) => pending[key].approved && pending[key].fingerprint === target);
+  if (!code) {
+    return false;
+  }
+  delete pending[code];
+  savePending(pending);
+  return true;
+}
+
+/**
+ * Drop any parked or approved confirmations for this call, e.g. after the user
+ * declined it
+ */
+export function discardConfirmations(toolName: string, databaseName: string, args: Args): void {
+  const pending = loadPending();
+  const target = fingerprint(toolName, databaseName, args);
+  const kept = Object.fromEntries(Object.entries(pending).filter(([, entry]) => entry.fingerprint !== target));
+  if (Object.keys(kept).length !== Object.keys(pending).length) {
+    savePending(kept);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Conversation context for tool calls
+ * Clients may send _conversation_context with every tool call. It is stripped
+ * from the tool arguments and routed as request metadata instead; clients
+ * that can't generate UUIDs fall back to a per-process session ID.
+ */
+
+import { randomUUID } from 'crypto';
+
+import { ConversationContext } from '../api/client.js';
+
+export const CONVERSATION_CONTEXT_ARG = '_conversation_context';
+
+// Fallback conversation ID for clients that don't send one
+export const SESSION_ID = randomUUID();
+
+// Schema injected into every tool's inputSchema by the list tools handler
+export const CONVERSATION_CONTEXT_PARAM = {
+  type: 'object',
+  description:
+    'Recommended on every call. Provide: (1) conversation_id - a UUID you generate on your first tool call and reuse for all subsequent calls in this conversation, (2) user_message - a 1-2 sentence summary of what the user asked that led to this tool call. If omitted, the server uses its own session ID.',
+  properties: {
+    conversation_id: {
+      type: 'string',
+      description:
+        'A stable UUID for this conversation. Generate once on your first tool call, then reuse on every subsequent call in the same conversation.',
+    },
+    user_message: {
+      type: 'string',
+      description:
+        'Brief summary (1-2 sentences) of the user request that led to this tool call.',
+    },
+  },
+  required: [],
+};
+
+/**
+ * Split _conversation_context out of tool arguments.
+ * Always returns a usable context, falling back to the session ID.
+ */
+export function extractConversationContext(args: Record<string, unknown>): {
+  context: ConversationContext;
+  args: Record<string, unknown>;
+} {
+  const { [CONVERSATION_CONTEXT_ARG]: raw, ...toolArgs } = args;
+  const supplied = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+
+  const conversationId = typeof supplied.conversation_id === 'string' && supplied.conversation_id.trim()
+    ? supplied.conversation_id.trim()
+    : SESSION_ID;
+  const userMessage = typeof supplied.user_message === 'string' && supplied.user_message.trim()
+    ? supplied.user_message.trim()
+    : undefined;
+
+  return {
+    context: {
+      conversation_id: conversationId,
+      ...(userMessage && { user_message: userMessage }),
+    },
+    args: toolArgs,
+  };
+}
+
+/**
+ * Short log prefix for a conversation (first 8 characters of the ID)
+ */
+export function conversationLogTag(context: ConversationContext): string {
+  return `[${context.conversation_id.slice(0, 8)}]`;
+}
@@ -0,0 +1,470 @@
+/**
+ * Model definition diffs
+ * Compares two sets of model definitions (view SQL, relationships, primary
+ * keys and generated quarri.schema columns), e.g. production against an
+ * environment or a snapshot. Backend payloads are normalized first so the
+ * same diff works for promotion plans, environment and snapshot comparisons.
+ */
+
+import { unifiedDiff } from './text-diff.js';
+
+export interface DefinitionSet {
+  // "layer.view" (or "view") -> SQL
+  views: Record<string, string>;
+  // Relationship description, e.g. "orders.customer_id → customers.id"
+  relationships: string[];
+  // Relationship entries in a shape we don't recognize, as JSON
+  unparsedRelationships: string[];
+  // Table -> primary key columns
+  primaryKeys: Record<string, string[]>;
+  // Table -> column -> data type
+  columns: Record<string, Record<string, string>>;
+}
+
+export interface DefinitionDiff {
+  views: {
+    added: Array<{ name: string; sql: string }>;
+    removed: Array<{ name: string; sql: string }>;
+    changed: Array<{ name: string; diff: string }>;
+  };
+  relationships: {
+    added: string[];
+    removed: string[];
+  };
+  primary_keys: {
+    added: Array<{ table: string; columns: string[] }>;
+    removed: Array<{ table: string; columns: string[] }>;
+    changed: Array<{ table: string; before: string[]; after: string[] }>;
+  };
+  columns: {
+    added: Array<{ table: string; column: string; type: string }>;
+    removed: Array<{ table: string; column: string; type: string }>;
+    changed: Array<{ table: string; column: string; before: string; after: string }>;
+  };
+  // Relationship entries left out of the comparison, prefixed with their side
+  unparsed_relationships: string[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * First string-valued field among the given keys
+ */
+function pick(record: RawRecord, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    if (typeof record[key] === 'string' && record[key]) {
+      return record[key] as string;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Column list from an array or a comma-separated string
+ */
+function toColumnList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return typeof value === 'string' ? value.split(',').map((c) => c.trim()).filter(Boolean) : [];
+}
+
+function parseViews(raw: unknown): Record<string, string> {
+  const views: Record<string, string> = {};
+  if (isRecord(raw)) {
+    for (const [name, sql] of Object.entries(raw)) {
+      views[name] = isRecord(sql) ? pick(sql, 'sql', 'definition', 'view_definition') ?? '' : String(sql ?? '');
+    }
+  } else if (Array.isArray(raw)) {
+    for (const view of raw.filter(isRecord)) {
+      const name = pick(view, 'name', 'view_name', 'table_name', 'target_table');
+      if (!name) {
+        continue;
+      }
+      const layer = pick(view, 'layer', 'transformation_type', 'schema', 'schema_name');
+      const key = layer && !name.startsWith(`${layer}.`) ? `${layer}.${name}` : name;
+      views[key] = pick(view, 'sql', 'definition', 'view_definition', 'transformation_sql') ?? '';
+    }
+  }
+  return views;
+}
+
+// Key prefixes naming the two ends of a relationship, foreign key side first
+const RELATIONSHIP_END_PREFIXES: Array<[string, string]> = [
+  ['from', 'to'],
+  ['source', 'target'],
+  ['child', 'parent'],
+  ['fk', 'pk'],
+  ['left', 'right'],
+  ['', 'references'],
+  ['', 'referenced'],
+];
+
+function formatEnd(table: string | undefined, columns: string[]): string | undefined {
+  if (!table || columns.length === 0) {
+    return undefined;
+  }
+  return `${table}.${columns.length > 1 ? `(${columns.join(', ')})` : columns[0]}`;
+}
+
+/**
+ * One end of a relationship: "table.column", { table, column }, or
+ * prefix_table / prefix_column(s) fields on the relationship itself
+ */
+function relationshipEnd(relationship: RawRecord, prefix: string): string | undefined {
+  if (prefix) {
+    const value = relationship[prefix];
+    if (typeof value === 'string' && /^[^.\s]+(\.[^.\s]+)+$/.test(value)) {
+      return value;
+    }
+    if (isRecord(value)) {
+      return formatEnd(pick(value, 'table', 'table_name'), toColumnList(value.columns ?? value.column ?? value.column_name));
+    }
+  }
+  const key = (suffix: string) => (prefix ? `${prefix}_${suffix}` : suffix);
+  return formatEnd(
+    pick(relationship, key('table'), key('table_name')),
+    toColumnList(relationship[key('columns')] ?? relationship[key('column')] ?? relationship[key('column_name')])
+  );
+}
+
+function parseRelationships(raw: unknown): { relationships: string[]; unparsed: string[] } {
+  const relationships: string[] = [];
+  const unparsed: string[] = [];
+  for (const relationship of Array.isArray(raw) ? raw : []) {
+    if (typeof relationship === 'string') {
+      relationships.push(relationship);
+      continue;
+    }
+    const ends = isRecord(relationship)
+      ? RELATIONSHIP_END_PREFIXES
+        .map(([fromPrefix, toPrefix]) => [relationshipEnd(relationship, fromPrefix), relationshipEnd(relationship, toPrefix)])
+        .find(([from, to]) => from && to)
+      : undefined;
+    if (!isRecord(relationship) || !ends) {
+      unparsed.push(JSON.stringify(relationship));
+      continue;
+    }
+    const kind = pick(relationship, 'relationship_type', 'cardinality', 'type');
+    relationships.push(`${ends[0]} → ${ends[1]}${kind ? ` (${kind})` : ''}`);
+  }
+  return { relationships: relationships.sort(), unparsed };
+}
+
+function parsePrimaryKeys(raw: unknown): Record<string, string[]> {
+  const keys: Record<string, string[]> = {};
+  if (isRecord(raw)) {
+    for (const [table, columns] of Object.entries(raw)) {
+      keys[table] = toColumnList(columns);
+    }
+  } else if (Array.isArray(raw)) {
+    for (const key of raw.filter(isRecord)) {
+      const table = pick(key, 'table', 'table_name');
+      if (table) {
+        keys[table] = toColumnList(key.columns ?? key.column ?? key.primary_key);
+      }
+    }
+  }
+  return keys;
+}
+
+function parseColumns(raw: unknown): Record<string, Record<string, string>> {
+  const tables: Record<string, Record<string, string>> = {};
+  const add = (table: string, column: string, type: string | undefined) => {
+    tables[table] = { ...tables[table], [column]: type ?? '' };
+  };
+
+  if (isRecord(raw)) {
+    // { table: [{ name, type }] } or { table: { column: type } }
+    for (const [table, columns] of Object.entries(raw)) {
+      if (Array.isArray(columns)) {
+        for (const column of columns) {
+          if (isRecord(column)) {
+            const name = pick(column, 'name', 'column_name');
+            if (name) add(table, name, pick(column, 'type', 'data_type'));
+          } else {
+            add(table, String(column), undefined);
+          }
+        }
+      } else if (isRecord(columns)) {
+        for (const [column, type] of Object.entries(columns)) {
+          add(table, column, typeof type === 'string' ? type : undefined);
+        }
+      }
+    }
+  } else if (Array.isArray(raw)) {
+    // [{ name, columns: [{ name, type }] }] or [{ table_name, column_name, data_type }]
+    for (const item of raw.filter(isRecord)) {
+      if (Array.isArray(item.columns)) {
+        const table = pick(item, 'name', 'table_name', 'table');
+        for (const column of item.columns.filter(isRecord)) {
+          const name = pick(column, 'name', 'column_name');
+          if (table && name) add(table, name, pick(column, 'type', 'data_type'));
+        }
+        continue;
+      }
+      const table = pick(item, 'table_name', 'table');
+      const name = pick(item, 'column_name', 'name');
+      if (table && name) {
+        add(table, name, pick(item, 'data_type', 'type'));
+      }
+    }
+  }
+  return tables;
+}
+
+/**
+ * Normalize a backend definition payload. Missing sections are empty.
+ */
+export function parseDefinitionSet(raw: unknown): DefinitionSet {
+  const data = isRecord(raw) ? raw : {};
+  const { relationships, unparsed } = parseRelationships(data.relationships);
+  return {
+    views: parseViews(data.views ?? data.transformations),
+    relationships,
+    unparsedRelationships: unparsed,
+    primaryKeys: parsePrimaryKeys(data.primary_keys),
+    columns: parseColumns(data.schema ?? data.columns ?? data.tables),
+  };
+}
+
+// Schemas an environment gets its own prefixed copy of, e.g. dev_staging
+const ENVIRONMENT_SCHEMAS = ['staging', 'silver', 'main', 'quarri'];
+
+/**
+ * Rewrite an environment's schema names (dev_staging.X, dev_quarri.schema) to
+ * the production names so definitions from different environments line up
+ */
+export function normalizeSchemaReferences(set: DefinitionSet, environment: string): DefinitionSet {
+  if (environment === 'production') {
+    return set;
+  }
+  const prefix = environment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`\\b${prefix}_(${ENVIRONMENT_SCHEMAS.join('|')})\\b`, 'gi');
+  const rewrite = (text: string) => text.replace(pattern, '$1');
+  const rewriteKeys = <T>(record: Record<string, T>, value: (v: T) => T = (v) => v) =>
+    Object.fromEntries(Object.entries(record).map(([key, v]) => [rewrite(key), value(v)]));
+
+  return {
+    views: rewriteKeys(set.views, rewrite),
+    relationships: set.relationships.map(rewrite).sort(),
+    unparsedRelationships: set.unparsedRelationships,
+    primaryKeys: rewriteKeys(set.primaryKeys),
+    columns: rewriteKeys(set.columns),
+  };
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((column, i) => column === b[i]);
+}
+
+/**
+ * Compare two definition sets. Labels name the sides in view SQL diffs.
+ */
+export function diffDefinitionSets(
+  before: DefinitionSet,
+  after: DefinitionSet,
+  labels: { before: string; after: string }
+): DefinitionDiff {
+  const diff: DefinitionDiff = {
+    views: { added: [], removed: [], changed: [] },
+    relationships: {
+      added: after.relationships.filter((r) => !before.relationships.includes(r)),
+      removed: before.relationships.filter((r) => !after.relationships.includes(r)),
+    },
+    primary_keys: { added: [], removed: [], changed: [] },
+    columns: { added: [], removed: [], changed: [] },
+    unparsed_relationships: [
+      ...before.unparsedRelationships.map((entry) => `${labels.before}: ${entry}`),
+      ...after.unparsedRelationships.map((entry) => `${labels.after}: ${entry}`),
+    ],
+  };
+
+  const viewNames = [...new Set([...Object.keys(before.views), ...Object.keys(after.views)])].sort();
+  for (const name of viewNames) {
+    if (!(name in before.views)) {
+      diff.views.added.push({ name, sql: after.views[name].trim() });
+    } else if (!(name in after.views)) {
+      diff.views.removed.push({ name, sql: before.views[name].trim() });
+    } else if (before.views[name].trim() !== after.views[name].trim()) {
+      diff.views.changed.push({
+        name,
+        diff: unifiedDiff(before.views[name].trim(), after.views[name].trim(), `${labels.before}/${name}`, `${labels.after}/${name}`),
+      });
+    }
+  }
+
+  const keyTables = [...new Set([...Object.keys(before.primaryKeys), ...Object.keys(after.primaryKeys)])].sort();
+  for (const table of keyTables) {
+    const old = before.primaryKeys[table];
+    const current = after.primaryKeys[table];
+    if (!old) {
+      diff.primary_keys.added.push({ table, columns: current });
+    } else if (!current) {
+      diff.primary_keys.removed.push({ table, columns: old });
+    } else if (!sameColumns(old, current)) {
+      diff.primary_keys.changed.push({ table, before: old, after: current });
+    }
+  }
+
+  const tables = [...new Set([...Object.keys(before.columns), ...Object.keys(after.columns)])].sort();
+  for (const table of tables) {
+    const old = before.columns[table] ?? {};
+    const current = after.columns[table] ?? {};
+    for (const column of [...new Set([...Object.keys(old), ...Object.keys(current)])].sort()) {
+      if (!(column in old)) {
+        diff.columns.added.push({ table, column, type: current[column] });
+      } else if (!(column in current)) {
+        diff.columns.removed.push({ table, column, type: old[column] });
+      } else if (old[column] !== current[column]) {
+        diff.columns.changed.push({ table, column, before: old[column], after: current[column] });
+      }
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Total number of differences
+ */
+export function countDefinitionChanges(diff: DefinitionDiff): number {
+  return [diff.views, diff.relationships, diff.primary_keys, diff.columns].reduce(
+    (total, section) => total + Object.values(section as Record<string, unknown[]>)
+      .reduce((sum, items) => sum + items.length, 0),
+    0
+  );
+}
+
+function formatUnparsedRelationships(entries: string[]): string {
+  return [
+    '## Unrecognized relationships',
+    '',
+    `${entries.length} relationship ${entries.length === 1 ? 'entry is' : 'entries are'} in a shape this server doesn't recognize and ${entries.length === 1 ? 'was' : 'were'} left out:`,
+    '',
+    ...entries.map((entry) => `? ${entry}`),
+  ].join('\n');
+}
+
+function formatType(type: string): string {
+  return type ? ` ${type}` : '';
+}
+
+/**
+ * Render a diff as readable text: a summary line, then unified diffs for
+ * changed views and +/-/~ lines for everything else
+ */
+export function formatDefinitionDiff(diff: DefinitionDiff, title: string): string {
+  const { views, relationships, primary_keys: keys, columns } = diff;
+  const sections: string[] = [`# ${title}`];
+
+  if (countDefinitionChanges(diff) === 0) {
+    sections.push('No differences.');
+    if (diff.unparsed_relationships.length > 0) {
+      sections.push(formatUnparsedRelationships(diff.unparsed_relationships));
+    }
+    return sections.join('\n\n');
+  }
+
+  sections.push([
+    `Views: ${views.added.length} added, ${views.removed.length} removed, ${views.changed.length} changed`,
+    `Relationships: ${relationships.added.length} added, ${relationships.removed.length} removed`,
+    `Primary keys: ${keys.added.length} added, ${keys.removed.length} removed, ${keys.changed.length} changed`,
+    `Schema columns: ${columns.added.length} added, ${columns.removed.length} removed, ${columns.changed.length} changed`,
+  ].join('\n'));
+
+  if (views.added.length + views.removed.length + views.changed.length > 0) {
+    const lines = ['## Views', ''];
+    for (const view of views.added) {
+      lines.push(`+ ${view.name}`, '', '```sql', view.sql, '```', '');
+    }
+    lines.push(...views.removed.map((view) => `- ${view.name}`));
+    if (views.removed.length > 0) {
+      lines.push('');
+    }
+    for (const view of views.changed) {
+      lines.push(`~ ${view.name}`, '', '```diff', view.diff, '```', '');
+    }
+    sections.push(lines.join('\n').trimEnd());
+  }
+
+  if (relationships.added.length + relationships.removed.length > 0) {
+    sections.push([
+      '## Relationships',
+      '',
+      ...relationships.added.map((r) => `+ ${r}`),
+      ...relationships.removed.map((r) => `- ${r}`),
+    ].join('\n'));
+  }
+
+  if (keys.added.length + keys.removed.length + keys.changed.length > 0) {
+    sections.push([
+      '## Primary keys',
+      '',
+      ...keys.added.map((k) => `+ ${k.table} (${k.columns.join(', ')})`),
+      ...keys.removed.map((k) => `- ${k.table} (${k.columns.join(', ')})`),
+      ...keys.changed.map((k) => `~ ${k.table}: (${k.before.join(', ')}) → (${k.after.join(', ')})`),
+    ].join('\n'));
+  }
+
+  if (columns.added.length + columns.removed.length + columns.changed.length > 0) {
+    sections.push([
+      '## quarri.schema columns',
+      '',
+      ...columns.added.map((c) => `+ ${c.table}.${c.column}${formatType(c.type)}`),
+      ...columns.removed.map((c) => `- ${c.table}.${c.column}${formatType(c.type)}`),
+      ...columns.changed.map((c) => `~ ${c.table}.${c.column}: ${c.before || '?'} → ${c.after || '?'}`),
+    ].join('\n'));
+  }
+
+  if (diff.unparsed_relationships.length > 0) {
+    sections.push(formatUnparsedRelationships(diff.unparsed_relationships));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Render a definition set as readable text (e.g. the contents of a snapshot)
+ */
+export function formatDefinitionSet(set: DefinitionSet, title: string): string {
+  const views = Object.keys(set.views).sort();
+  const keyTables = Object.keys(set.primaryKeys).sort();
+  const tables = Object.keys(set.columns).sort();
+  const sections: string[] = [
+    `# ${title}`,
+    `Views: ${views.length}, relationships: ${set.relationships.length}, primary keys: ${keyTables.length}`,
+  ];
+
+  if (views.length > 0) {
+    sections.push(['## Views', '', ...views.flatMap((name) => [name, '', '```sql', set.views[name].trim(), '```', ''])]
+      .join('\n').trimEnd());
+  }
+  if (set.relationships.length > 0) {
+    sections.push(['## Relationships', '', ...set.relationships.map((r) => `- ${r}`)].join('\n'));
+  }
+  if (set.unparsedRelationships.length > 0) {
+    sections.push(formatUnparsedRelationships(set.unparsedRelationships));
+  }
+  if (keyTables.length > 0) {
+    sections.push([
+      '## Primary keys',
+      '',
+      ...keyTables.map((table) => `- ${table} (${set.primaryKeys[table].join(', ')})`),
+    ].join('\n'));
+  }
+  if (tables.length > 0) {
+    sections.push([
+      '## quarri.schema columns',
+      '',
+      ...tables.map((table) => `- ${table}: ${Object.entries(set.columns[table])
+        .map(([column, type]) => `${column}${formatType(type)}`).join(', ')}`),
+    ].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
@@ -3,6 +3,8 @@
  * All tools are prefixed with 'quarri_' to avoid conflicts with other MCP servers
  */
 
+import { LONG_TIMEOUT } from '../api/client.js';
+
 export interface ToolParameter {
   type: string;
   description: string;
@@ -26,6 +28,11 @@ export interface ToolDefinition {
     properties: Record<string, ToolParameter>;
     required: string[];
   };
+  // Request timeout in ms when the backend call outlasts the client default
+  timeout?: number;
+  // Changes data, models, settings or content (hidden in read-only mode).
+  // Set by the catalog: see isMutatingToolName for local definitions.
+  mutates?: boolean;
   _meta?: ToolMeta;
 }
 
@@ -104,6 +111,7 @@ export const TOOL_NAME_MAP: Record<string, string> = {
   quarri_promote_environment: 'promote_environment',
   quarri_rollback_production: 'rollback_production',
   quarri_list_production_snapshots: 'list_production_snapshots',
+  quarri_get_snapshot: 'get_production_snapshot',
   // Skills (procedural knowledge)
   quarri_create_skill: 'create_skill',
   quarri_search_skills: 'search_skills',
@@ -126,6 +134,84 @@ export const TOOL_NAME_MAP: Record<string, string> = {
   quarri_revoke_content_access: 'revoke_content_access',
 };
 
+// Tools handled entirely by the MCP server (never looked up in the backend catalog)
+export const LOCAL_TOOL_NAMES = new Set<string>([
+  'quarri_auth_status',
+  'quarri_request_reauth',
+  'quarri_complete_reauth',
+  'quarri_list_databases',
+  'quarri_select_database',
+  'quarri_trial_status',
+  'quarri_batch',
+  'quarri_get_job_status',
+  'quarri_wait_for_job',
+  'quarri_export_query',
+  'quarri_cache',
+  'quarri_query_history',
+  'quarri_rerun_query',
+  'quarri_plan_promotion',
+  'quarri_diff_environments',
+  'quarri_diff_snapshot',
+]);
+
+// Tools with no side effects: safe to retry on network errors, timeouts and 5xx.
+// Everything else is sent with an idempotency key instead.
+export const READ_ONLY_TOOL_NAMES = new Set<string>([
+  'quarri_trial_status',
+  'quarri_get_query_context',
+  'quarri_execute_sql',
+  'quarri_get_schema',
+  'quarri_search_values',
+  'quarri_get_metrics',
+  'quarri_get_metric_detail',
+  'quarri_search_metrics',
+  'quarri_list_rules',
+  'quarri_list_searchable_columns',
+  'quarri_list_teams',
+  'quarri_get_team_filters',
+  'quarri_get_team_restrictions',
+  'quarri_list_extraction_sources',
+  'quarri_discover_tables',
+  'quarri_list_raw_tables',
+  'quarri_query_model_data',
+  'quarri_list_staging_tables',
+  'quarri_introspect_table',
+  'quarri_get_staging_lineage',
+  'quarri_get_relationships',
+  'quarri_read_server_logs',
+  'quarri_query_repl_activity',
+  'quarri_read_fly_logs',
+  'quarri_list_connectors',
+  'quarri_get_connector_code',
+  'quarri_get_connector_logs',
+  'quarri_list_environments',
+  'quarri_list_production_snapshots',
+  'quarri_get_snapshot',
+  'quarri_search_skills',
+  'quarri_list_skills',
+  'quarri_get_skill',
+  'quarri_list_skill_versions',
+  'quarri_list_content',
+  'quarri_get_content',
+  'quarri_list_content_versions',
+]);
+
+// Tools that only write activity records (run logs, skill usage). They are not
+// safe to retry, but leave data, models and settings alone: available in
+// read-only mode, and cached results stay valid.
+export const RECORDING_TOOL_NAMES = new Set<string>([
+  'quarri_log_analysis_run',
+  'quarri_record_skill_usage',
+]);
+
+/**
+ * Whether a backend-routed tool changes data, models, settings or content:
+ * every tool in TOOL_NAME_MAP that is neither read-only nor recording-only
+ */
+export function isMutatingToolName(name: string): boolean {
+  return name in TOOL_NAME_MAP && !READ_ONLY_TOOL_NAMES.has(name) && !RECORDING_TOOL_NAMES.has(name);
+}
+
 export const TOOL_DEFINITIONS: ToolDefinition[] = [
   // ==================== QUERY CONTEXT ====================
   // This is the PRIMARY tool to call before generating any SQL query.
@@ -158,6 +244,174 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
     },
   },
 
+  // ==================== BATCH ====================
+  // Runs several backend tools in one round-trip (e.g. context, SQL and metric lookups)
+  {
+    name: 'quarri_batch',
+    description:
+      'Run an ordered list of Quarri tool calls in a single request against the selected database. Use to cut latency when you already know the sequence of calls (e.g. quarri_get_query_context, then quarri_execute_sql, then quarri_search_metrics). Steps run in order; later steps cannot use earlier results. Session tools (auth, database selection) and quarri_batch itself cannot be batched.',
+    category: 'data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        steps: {
+          type: 'array',
+          items: { type: 'object' },
+          description:
+            'Ordered tool calls, each {"tool": "<MCP tool name, e.g. quarri_execute_sql>", "args": {...}}. Maximum 20 steps.',
+        },
+        stop_on_error: {
+          type: 'boolean',
+          description: 'Stop at the first failing step (default: false)',
+          default: false,
+        },
+      },
+      required: ['steps'],
+    },
+  },
+
+  // ==================== EXPORT ====================
+  {
+    name: 'quarri_export_query',
+    description:
+      'Run a SQL query and save the full result to a local file (CSV, JSON Lines or Parquet). Pages through every row instead of returning them in the conversation. Returns the file path, row count and column schema. Use when the user asks to save or download results.',
+    category: 'data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sql: {
+          type: 'string',
+          description: 'SELECT query to export. Use ORDER BY for a stable row order.',
+        },
+        path: {
+          type: 'string',
+          description: 'Local file path to write (e.g. ~/Downloads/revenue.csv). Relative paths resolve against the server working directory.',
+        },
+        format: {
+          type: 'string',
+          enum: ['csv', 'jsonl', 'parquet'],
+          description: 'File format (default: from the file extension, otherwise csv)',
+        },
+        source: {
+          type: 'string',
+          enum: ['execute_sql', 'query_model_data'],
+          description:
+            'execute_sql for quarri.schema queries (default), query_model_data for staging/silver/main/raw tables',
+          default: 'execute_sql',
+        },
+        environment: {
+          type: 'string',
+          description: 'Target environment (default: "production")',
+        },
+        max_rows: {
+          type: 'integer',
+          description: 'Stop after this many rows (default 1000000)',
+          default: 1000000,
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace the file if it already exists (default: false)',
+          default: false,
+        },
+      },
+      required: ['sql', 'path'],
+    },
+  },
+
+  // ==================== CACHE ====================
+  {
+    name: 'quarri_cache',
+    description:
+      'Inspect or clear the local result cache (enabled with QUARRI_CACHE=1). stats shows entry counts and size, list shows cached calls, clear removes entries so the next call hits the backend.',
+    category: 'data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['stats', 'list', 'clear'],
+          description: 'What to do (default: stats)',
+          default: 'stats',
+        },
+        database: {
+          type: 'string',
+          description: 'Only entries for this database',
+        },
+        tool: {
+          type: 'string',
+          description: 'Only entries for this tool (e.g. quarri_execute_sql)',
+        },
+      },
+      required: [],
+    },
+  },
+
+  // ==================== QUERY HISTORY ====================
+  {
+    name: 'quarri_query_history',
+    description:
+      'Search the local history of quarri_execute_sql and quarri_query_model_data calls (SQL, database, environment, row count, duration), newest first. Use to find a query run earlier, in this or a previous session.',
+    category: 'data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        search: {
+          type: 'string',
+          description: 'Only queries whose SQL contains this text (case-insensitive)',
+        },
+        database: {
+          type: 'string',
+          description: 'Only queries run against this database',
+        },
+        tool: {
+          type: 'string',
+          enum: ['quarri_execute_sql', 'quarri_query_model_data'],
+          description: 'Only queries run with this tool',
+        },
+        this_conversation: {
+          type: 'boolean',
+          description: 'Only queries from the current conversation (default: false)',
+          default: false,
+        },
+        failed_only: {
+          type: 'boolean',
+          description: 'Only queries that failed (default: false)',
+          default: false,
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum entries to return (default 20)',
+          default: 20,
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'quarri_rerun_query',
+    description:
+      'Run a query from the local history again, with the same tool, SQL and environment. Returns fresh results like the original tool.',
+    category: 'data',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'History entry id from quarri_query_history',
+        },
+        limit: {
+          type: 'integer',
+          description: 'Rows per page (default 100)',
+        },
+        environment: {
+          type: 'string',
+          description: 'Run against a different environment than the original',
+        },
+      },
+      required: ['id'],
+    },
+  },
+
   // ==================== DATA TOOLS ====================
   // Note: Agent tools have been removed and are now handled by Claude Code skills:
   // - /quarri-query (replaces quarri_query_agent)
@@ -178,11 +432,11 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       properties: {
         sql: {
           type: 'string',
-          description: 'SQL query to execute (SELECT only). Must query from quarri.schema view.',
+          description: 'SQL query to execute (SELECT only). Must query from quarri.schema view. Optional when cursor is given.',
         },
         limit: {
           type: 'integer',
-          description: 'Maximum rows to return (default 100)',
+          description: 'Maximum rows to return per page (default 100, capped by QUARRI_MAX_RESULT_ROWS)',
           default: 100,
         },
         environment: {
@@ -190,8 +444,17 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           description:
             'Target environment (default: "production"). When set, auto-resolves the correct quarri schema name.',
         },
+        cursor: {
+          type: 'string',
+          description:
+            'next_cursor from a previous result, to fetch the following page of the same query',
+        },
+        offset: {
+          type: 'integer',
+          description: 'Rows to skip before the first returned row (default 0). Use with sql; not with cursor.',
+        },
       },
-      required: ['sql'],
+      required: [],
     },
     _meta: { ui: { resourceUri: 'ui://quarri/data-table' } },
   },
@@ -450,6 +713,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       },
       required: ['table_name', 'column_name'],
     },
+    timeout: LONG_TIMEOUT,
   },
   {
     name: 'quarri_list_searchable_columns',
@@ -699,11 +963,11 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
         sql: {
           type: 'string',
           description:
-            'SELECT query to execute against staging/silver/main/raw tables',
+            'SELECT query to execute against staging/silver/main/raw tables. Optional when cursor is given.',
         },
         limit: {
           type: 'integer',
-          description: 'Maximum rows to return (default 100)',
+          description: 'Maximum rows to return per page (default 100, capped by QUARRI_MAX_RESULT_ROWS)',
           default: 100,
         },
         environment: {
@@ -711,8 +975,17 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           description:
             'Target environment (default: "production"). Allows querying environment-specific schemas.',
         },
+        cursor: {
+          type: 'string',
+          description:
+            'next_cursor from a previous result, to fetch the following page of the same query',
+        },
+        offset: {
+          type: 'integer',
+          description: 'Rows to skip before the first returned row (default 0). Use with sql; not with cursor.',
+        },
       },
-      required: ['sql'],
+      required: [],
     },
     _meta: { ui: { resourceUri: 'ui://quarri/data-table' } },
   },
@@ -980,6 +1253,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       },
       required: [],
     },
+    timeout: LONG_TIMEOUT,
   },
   {
     name: 'quarri_set_relationship',
@@ -1306,9 +1580,16 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           type: 'string',
           description: 'ID of the connector (extraction_id from create_connector or list_connectors)',
         },
+        async: {
+          type: 'boolean',
+          description:
+            'Return a job handle immediately instead of waiting for completion (default: false). Check on it with quarri_get_job_status or quarri_wait_for_job.',
+          default: false,
+        },
       },
       required: ['connector_id'],
     },
+    timeout: LONG_TIMEOUT,
   },
   {
     name: 'quarri_schedule_extraction',
@@ -1704,14 +1985,59 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           type: 'string',
           description: 'Environment to promote (cannot be "production")',
         },
+        async: {
+          type: 'boolean',
+          description:
+            'Return a job handle immediately instead of waiting for completion (default: false). Check on it with quarri_get_job_status or quarri_wait_for_job.',
+          default: false,
+        },
       },
       required: ['environment_name'],
     },
+    timeout: LONG_TIMEOUT,
+  },
+  {
+    name: 'quarri_plan_promotion',
+    description:
+      'Preview quarri_promote_environment without changing anything. Fetches the environment\'s and production\'s transformations, relationships and generated quarri schema and returns a diff against production of the view definitions (with environment schema prefixes rewritten to production\'s), relationships, primary keys and quarri.schema columns the promotion would change. Show it to the user before promoting.',
+    category: 'environments',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        environment_name: {
+          type: 'string',
+          description: 'Environment to preview promoting (cannot be "production")',
+        },
+      },
+      required: ['environment_name'],
+    },
+    timeout: LONG_TIMEOUT,
+  },
+  {
+    name: 'quarri_diff_environments',
+    description:
+      'Compare the data model of two environments, e.g. a dev environment against production. Fetches each side\'s transformations (staging/silver view SQL), relationships and generated quarri schema, and returns a unified-text diff of added, removed and changed views, relationship and primary key changes and quarri.schema column changes, followed by the same diff as JSON. Environment schema prefixes (dev_staging, dev_quarri, ...) are ignored so only real definition changes show.',
+    category: 'environments',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        environment: {
+          type: 'string',
+          description: 'Environment to compare (the "after" side)',
+        },
+        base_environment: {
+          type: 'string',
+          description: 'Environment to compare against (the "before" side, default: "production")',
+        },
+      },
+      required: ['environment'],
+    },
+    timeout: LONG_TIMEOUT,
   },
   {
     name: 'quarri_rollback_production',
     description:
-      'Rollback production to a previous snapshot. Restores transformation definitions, relationships, and primary keys from a snapshot. Re-executes all staging and silver views in production schemas and regenerates quarri schema. If no snapshot_id is provided, rolls back to the most recent snapshot.',
+      'Rollback production to a previous snapshot. Restores transformation definitions, relationships, and primary keys from a snapshot. Re-executes all staging and silver views in production schemas and regenerates quarri schema. If no snapshot_id is provided, rolls back to the most recent snapshot. Preview with quarri_diff_snapshot first.',
     category: 'environments',
     inputSchema: {
       type: 'object',
@@ -1721,6 +2047,12 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           description:
             'ID of the snapshot to rollback to (optional — defaults to most recent)',
         },
+        async: {
+          type: 'boolean',
+          description:
+            'Return a job handle immediately instead of waiting for completion (default: false). Check on it with quarri_get_job_status or quarri_wait_for_job.',
+          default: false,
+        },
       },
       required: [],
     },
@@ -1741,6 +2073,79 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       required: [],
     },
   },
+  {
+    name: 'quarri_get_snapshot',
+    description:
+      'Show the contents of a production snapshot: when and why it was taken, and the transformation definitions (view SQL), relationships and primary keys it would restore. Use with quarri_diff_snapshot to pick a snapshot before quarri_rollback_production.',
+    category: 'environments',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        snapshot_id: {
+          type: 'integer',
+          description: 'Snapshot ID from list_production_snapshots. If omitted, shows the most recent snapshot.',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'quarri_diff_snapshot',
+    description:
+      'Preview quarri_rollback_production without changing anything: diffs current production against a snapshot and shows the views, relationships and primary keys a rollback to it would add, remove or change. Show it to the user before rolling back.',
+    category: 'environments',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        snapshot_id: {
+          type: 'integer',
+          description: 'Snapshot ID from list_production_snapshots. If omitted, compares against the most recent snapshot (the one rollback_production defaults to).',
+        },
+      },
+      required: [],
+    },
+    timeout: LONG_TIMEOUT,
+  },
+
+  // ==================== JOBS ====================
+  // Background jobs started with async: true (connector runs, promotions, rollbacks)
+  {
+    name: 'quarri_get_job_status',
+    description:
+      'Check the status of a background job started with async: true. Without job_id, lists every job started in this session with its latest status.',
+    category: 'jobs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        job_id: {
+          type: 'string',
+          description: 'Job ID returned when the job was started (optional)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'quarri_wait_for_job',
+    description:
+      'Wait for a background job to finish and return its result. Returns the latest status if the job is still running when the wait times out; call again to keep waiting.',
+    category: 'jobs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        job_id: {
+          type: 'string',
+          description: 'Job ID returned when the job was started',
+        },
+        timeout_seconds: {
+          type: 'integer',
+          description: 'Maximum time to wait (default: 120, max: 600)',
+          default: 120,
+        },
+      },
+      required: ['job_id'],
+    },
+  },
 
   // ==================== CONTENT (HTML Artifact Persistence) ====================
   {
@@ -0,0 +1,285 @@
+/**
+ * Query result export to local files
+ * Pages through a query and appends each page to a CSV, JSON Lines or Parquet
+ * file, so only one page of rows is ever held in memory. The column schema is
+ * inferred from the first page; a Parquet export fails if a later value does
+ * not fit its column's type.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { lintToolCall } from './sql-lint.js';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'parquet';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'parquet'];
+export const DEFAULT_EXPORT_MAX_ROWS = 1000000;
+
+export interface ExportColumn {
+  name: string;
+  type: 'string' | 'number' | 'boolean';
+}
+
+export interface ExportPage {
+  success: boolean;
+  error?: string;
+  columns?: string[];
+  rows: Record<string, unknown>[];
+  hasMore: boolean;
+}
+
+export interface ExportResult {
+  success: boolean;
+  error?: string;
+  path: string;
+  format: ExportFormat;
+  row_count: number;
+  columns: ExportColumn[];
+  // Stopped at max_rows with rows still remaining
+  truncated: boolean;
+}
+
+interface ExportWriter {
+  write(rows: Record<string, unknown>[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Subset of the parquetjs-lite API used here (the package ships no types)
+interface ParquetModule {
+  ParquetSchema: new (fields: Record<string, { type: string; optional: boolean }>) => unknown;
+  ParquetWriter: {
+    openFile(schema: unknown, path: string, opts?: { flags?: string }): Promise<{
+      appendRow(row: Record<string, unknown>): Promise<void>;
+      close(): Promise<void>;
+    }>;
+  };
+}
+
+const PARQUET_TYPES: Record<ExportColumn['type'], string> = {
+  string: 'UTF8',
+  number: 'DOUBLE',
+  boolean: 'BOOLEAN',
+};
+
+/**
+ * Resolve an export path, expanding a leading ~
+ */
+export function resolveExportPath(filePath: string): string {
+  const expanded = filePath === '~' || filePath.startsWith('~/')
+    ? path.join(os.homedir(), filePath.slice(1))
+    : filePath;
+  return path.resolve(expanded);
+}
+
+/**
+ * Pick the export format from the argument or the file extension (default csv)
+ */
+export function inferExportFormat(filePath: string, format?: string): ExportFormat {
+  if (format && EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return format as ExportFormat;
+  }
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.parquet' || extension === '.pq') return 'parquet';
+  if (extension === '.jsonl' || extension === '.ndjson') return 'jsonl';
+  return 'csv';
+}
+
+/**
+ * Problems the local SQL checks find in an export's query. Exports of
+ * execute_sql get the same checks as a direct quarri_execute_sql call.
+ */
+export function checkExportQuery(
+  source: string,
+  databaseName: string,
+  sql: string,
+  environment?: string
+): string[] {
+  return lintToolCall(`quarri_${source}`, databaseName, { sql, environment });
+}
+
+/**
+ * Infer column types from the first page of rows
+ */
+function inferColumns(columns: string[], rows: Record<string, unknown>[]): ExportColumn[] {
+  return columns.map((name) => {
+    const sample = rows.map((row) => row[name]).filter((value) => value !== null && value !== undefined);
+    if (sample.length > 0 && sample.every((value) => typeof value === 'number')) {
+      return { name, type: 'number' };
+    }
+    if (sample.length > 0 && sample.every((value) => typeof value === 'boolean')) {
+      return { name, type: 'boolean' };
+    }
+    return { name, type: 'string' };
+  });
+}
+
+// A value that doesn't fit the column type inferred for it
+class ExportTypeError extends Error {}
+
+/**
+ * Coerce a value to its column type. Throws when it doesn't fit, rather than
+ * writing null in its place.
+ */
+function coerceValue(value: unknown, column: ExportColumn, rowNumber: number): string | number | boolean | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (column.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value
+        : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      if (Number.isFinite(number)) {
+        return number;
+      }
+      break;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      break;
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  throw new ExportTypeError(
+    `Column '${column.name}' was typed as ${column.type} from the first page, but row ${rowNumber} has ${JSON.stringify(value)}. `
+    + 'Export as csv or jsonl, or CAST the column to VARCHAR in the query.'
+  );
+}
+
+/**
+ * Quote a CSV field per RFC 4180
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Open a writer for the chosen format
+ */
+async function openExportWriter(
+  filePath: string,
+  format: ExportFormat,
+  columns: ExportColumn[],
+  overwrite: boolean
+): Promise<ExportWriter> {
+  const flags = overwrite ? 'w' : 'wx';
+
+  if (format === 'parquet') {
+    // Loaded lazily: only parquet exports need it
+    const parquet = require('parquetjs-lite') as ParquetModule;
+    const schema = new parquet.ParquetSchema(Object.fromEntries(
+      columns.map((column) => [column.name, { type: PARQUET_TYPES[column.type], optional: true }])
+    ));
+    const writer = await parquet.ParquetWriter.openFile(schema, filePath, { flags });
+    let rowNumber = 0;
+    return {
+      async write(rows) {
+        for (const row of rows) {
+          rowNumber++;
+          const record: Record<string, unknown> = {};
+          for (const column of columns) {
+            const value = coerceValue(row[column.name], column, rowNumber);
+            if (value !== null) {
+              record[column.name] = value;
+            }
+          }
+          await writer.appendRow(record);
+        }
+      },
+      close: () => writer.close(),
+    };
+  }
+
+  const file = await fs.promises.open(filePath, flags, 0o644);
+  if (format === 'csv') {
+    await file.write(`${columns.map((column) => csvField(column.name)).join(',')}\n`);
+  }
+
+  return {
+    async write(rows) {
+      const lines = rows.map((row) => format === 'csv'
+        ? columns.map((column) => csvField(row[column.name])).join(',')
+        : JSON.stringify(Object.fromEntries(columns.map((column) => [column.name, row[column.name] ?? null]))));
+      if (lines.length > 0) {
+        await file.write(`${lines.join('\n')}\n`);
+      }
+    },
+    close: () => file.close(),
+  };
+}
+
+/**
+ * Export every page of a query to a local file.
+ * fetchPage is called with increasing offsets until no rows remain.
+ */
+export async function exportQueryResults(options: {
+  filePath: string;
+  format: ExportFormat;
+  maxRows: number;
+  overwrite: boolean;
+  fetchPage: (offset: number) => Promise<ExportPage>;
+  onRows?: (rowCount: number) => void;
+}): Promise<ExportResult> {
+  const { filePath, format, maxRows, overwrite, fetchPage, onRows } = options;
+  const result: ExportResult = {
+    success: true,
+    path: filePath,
+    format,
+    row_count: 0,
+    columns: [],
+    truncated: false,
+  };
+
+  let writer: ExportWriter | undefined;
+  try {
+    for (;;) {
+      const page = await fetchPage(result.row_count);
+      if (!page.success) {
+        return { ...result, success: false, error: page.error || 'Unknown error' };
+      }
+
+      if (!writer) {
+        const names = page.columns ?? (page.rows.length > 0 ? Object.keys(page.rows[0]) : []);
+        result.columns = inferColumns(names, page.rows);
+        writer = await openExportWriter(filePath, format, result.columns, overwrite);
+      }
+
+      const rows = page.rows.slice(0, maxRows - result.row_count);
+      await writer.write(rows);
+      result.row_count += rows.length;
+      onRows?.(result.row_count);
+
+      if (result.row_count >= maxRows) {
+        result.truncated = page.hasMore || rows.length < page.rows.length;
+        break;
+      }
+      if (!page.hasMore || page.rows.length === 0) {
+        break;
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return { ...result, success: false, error: `${filePath} already exists. Pass overwrite: true to replace it.` };
+    }
+    if (error instanceof ExportTypeError) {
+      // A Parquet file missing rows would pass for a complete export
+      await writer?.close().catch(() => undefined);
+      writer = undefined;
+      await fs.promises.rm(filePath, { force: true });
+      return { ...result, success: false, error: error.message };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { ...result, success: false, error: message };
+  } finally {
+    await writer?.close().catch(() => undefined);
+  }
+
+  return result;
+}
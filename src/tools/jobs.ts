@@ -0,0 +1,80 @@
+/**
+ * Background job tracking
+ * Long-running tools can be started with async: true, which returns a backend
+ * job handle instead of blocking the tool call. Jobs started in this session
+ * are remembered so the model can check on them later in the conversation.
+ */
+
+import { JobStatus, isJobFinished } from '../api/client.js';
+
+// Tools that accept async: true
+export const ASYNC_JOB_TOOLS = new Set<string>([
+  'quarri_run_connector',
+  'quarri_promote_environment',
+  'quarri_rollback_production',
+]);
+
+export const DEFAULT_JOB_WAIT_SECONDS = 120;
+export const MAX_JOB_WAIT_SECONDS = 600;
+
+export interface TrackedJob {
+  jobId: string;
+  tool: string;
+  database: string;
+  startedAt: string;
+  status: string;
+  stage?: string;
+  // Set once completion side effects (resource notifications) have run
+  finished: boolean;
+}
+
+const sessionJobs = new Map<string, TrackedJob>();
+
+/**
+ * Remember a job started in this session
+ */
+export function trackJob(jobId: string, tool: string, database: string, status: string): TrackedJob {
+  const job: TrackedJob = {
+    jobId,
+    tool,
+    database,
+    startedAt: new Date().toISOString(),
+    status,
+    finished: false,
+  };
+  sessionJobs.set(jobId, job);
+  return job;
+}
+
+/**
+ * Get a job started in this session
+ */
+export function getTrackedJob(jobId: string): TrackedJob | undefined {
+  return sessionJobs.get(jobId);
+}
+
+/**
+ * List jobs started in this session, newest first
+ */
+export function listTrackedJobs(): TrackedJob[] {
+  return [...sessionJobs.values()].reverse();
+}
+
+/**
+ * Record the latest backend status for a tracked job.
+ * Returns true the first time the job is seen finished.
+ */
+export function updateTrackedJob(jobId: string, status: JobStatus): boolean {
+  const job = sessionJobs.get(jobId);
+  if (!job) {
+    return false;
+  }
+
+  job.status = status.status;
+  job.stage = status.stage || status.message;
+  if (job.finished || !isJobFinished(status.status)) {
+    return false;
+  }
+  job.finished = true;
+  return true;
+}
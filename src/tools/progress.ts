@@ -0,0 +1,55 @@
+/**
+ * MCP progress notifications for long-running tool calls
+ * When a caller sends a progressToken, backend job status updates are turned
+ * into notifications/progress messages. MCP requires progress to increase with
+ * every notification, so when the backend reports only stages, each new stage
+ * advances a local step counter instead.
+ */
+
+import { ProgressNotification, ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+
+import { JobStatus } from '../api/client.js';
+
+/**
+ * Build a JobStatus callback that emits progress notifications for a token
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken,
+  send: (notification: ProgressNotification) => Promise<void>
+): (status: JobStatus) => void {
+  let lastProgress = 0;
+  let lastMessage: string | undefined;
+
+  return (status) => {
+    const message = status.message || status.stage;
+    const reported = typeof status.progress === 'number' ? status.progress : undefined;
+
+    let progress: number;
+    if (reported !== undefined) {
+      if (reported <= lastProgress) {
+        return;
+      }
+      progress = reported;
+    } else if (message && message !== lastMessage) {
+      progress = lastProgress + 1;
+    } else {
+      return;
+    }
+
+    lastProgress = progress;
+    lastMessage = message;
+
+    const total = typeof status.total === 'number' && status.total >= progress ? status.total : undefined;
+    send({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined && { total }),
+        ...(message && { message }),
+      },
+    }).catch((error) => {
+      console.error('Failed to send progress notification:', error);
+    });
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Local query history
+ * Every execute_sql / query_model_data call is appended to
+ * ~/.quarri/query-history.jsonl so past queries can be searched and replayed
+ * from any session. Only the newest MAX_HISTORY_ENTRIES are kept.
+ */
+
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { QUARRI_DIR, ensureQuarriDir } from '../auth/token-store.js';
+
+const HISTORY_FILE = path.join(QUARRI_DIR, 'query-history.jsonl');
+const MAX_HISTORY_ENTRIES = 1000;
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+export interface QueryHistoryEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  database: string;
+  environment: string;
+  sql: string;
+  // Set for later pages of a result
+  offset?: number;
+  success: boolean;
+  error?: string;
+  row_count?: number;
+  duration_ms: number;
+  cached?: boolean;
+  conversation_id?: string;
+}
+
+export interface QueryHistoryFilter {
+  search?: string;
+  database?: string;
+  tool?: string;
+  conversationId?: string;
+  failedOnly?: boolean;
+  limit?: number;
+}
+
+/**
+ * Load all history entries, oldest first
+ */
+export function loadQueryHistory(): QueryHistoryEntry[] {
+  if (!fs.existsSync(HISTORY_FILE)) {
+    return [];
+  }
+
+  const entries: QueryHistoryEntry[] = [];
+  try {
+    for (const line of fs.readFileSync(HISTORY_FILE, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as QueryHistoryEntry);
+      } catch {
+        // Skip a partially written line
+      }
+    }
+  } catch (error) {
+    console.error('Failed to read query history:', error);
+  }
+  return entries;
+}
+
+/**
+ * Append a query to the history, trimming the oldest entries past the limit
+ */
+export function appendQueryHistory(entry: Omit<QueryHistoryEntry, 'id' | 'timestamp'>): QueryHistoryEntry {
+  const recorded: QueryHistoryEntry = {
+    id: randomUUID().slice(0, 8),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+
+  try {
+    ensureQuarriDir();
+    fs.appendFileSync(HISTORY_FILE, `${JSON.stringify(recorded)}\n`, { mode: 0o600 });
+
+    const entries = loadQueryHistory();
+    if (entries.length > MAX_HISTORY_ENTRIES) {
+      const kept = entries.slice(-MAX_HISTORY_ENTRIES);
+      fs.writeFileSync(HISTORY_FILE, kept.map((e) => `${JSON.stringify(e)}\n`).join(''), { mode: 0o600 });
+    }
+  } catch (error) {
+    console.error('Failed to write query history:', error);
+  }
+  return recorded;
+}
+
+/**
+ * Search the history, newest first. search matches SQL text case-insensitively.
+ */
+export function searchQueryHistory(filter: QueryHistoryFilter = {}): QueryHistoryEntry[] {
+  const search = filter.search?.toLowerCase();
+  return loadQueryHistory()
+    .filter((entry) =>
+      (!search || entry.sql.toLowerCase().includes(search))
+      && (!filter.database || entry.database === filter.database)
+      && (!filter.tool || entry.tool === filter.tool)
+      && (!filter.conversationId || entry.conversation_id === filter.conversationId)
+      && (!filter.failedOnly || !entry.success))
+    .reverse()
+    .slice(0, filter.limit ?? DEFAULT_HISTORY_LIMIT);
+}
+
+/**
+ * Find one history entry by id
+ */
+export function getQueryHistoryEntry(id: string): QueryHistoryEntry | undefined {
+  return loadQueryHistory().find((entry) => entry.id === id);
+}
+
+/**
+ * Delete the history file
+ */
+export function clearQueryHistory(): void {
+  if (fs.existsSync(HISTORY_FILE)) {
+    fs.unlinkSync(HISTORY_FILE);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Read-only safety mode
+ * With QUARRI_READ_ONLY=1 (or "read_only": true in ~/.quarri/config.json),
+ * tools classified as mutating are hidden from the tool list and rejected when
+ * called, so an install can only read data. The environment variable wins
+ * over the config file when both are set.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { QUARRI_DIR } from '../auth/token-store.js';
+import { ToolDefinition } from './definitions.js';
+
+const CONFIG_FILE = path.join(QUARRI_DIR, 'config.json');
+
+interface QuarriConfig {
+  read_only?: boolean;
+}
+
+/**
+ * Load ~/.quarri/config.json, or an empty config if missing or invalid
+ */
+function loadConfig(): QuarriConfig {
+  try {
+    if (!fs.existsSync(CONFIG_FILE)) {
+      return {};
+    }
+    return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8')) as QuarriConfig;
+  } catch (error) {
+    console.error('Failed to load config:', error);
+    return {};
+  }
+}
+
+/**
+ * Whether the server is in read-only mode
+ */
+export function isReadOnlyMode(): boolean {
+  const env = process.env.QUARRI_READ_ONLY?.trim().toLowerCase();
+  if (env) {
+    return ['1', 'true', 'yes', 'on'].includes(env);
+  }
+  return loadConfig().read_only === true;
+}
+
+/**
+ * Whether a tool is disabled by read-only mode
+ */
+export function isToolBlocked(tool: ToolDefinition | undefined): boolean {
+  return tool?.mutates === true && isReadOnlyMode();
+}
+
+/**
+ * Message for a call to a tool disabled by read-only mode
+ */
+export function formatReadOnlyRejection(toolName: string): string {
+  return `${toolName} changes data and is disabled because this Quarri server is in read-only mode. Unset QUARRI_READ_ONLY (or "read_only" in ~/.quarri/config.json) to enable it.`;
+}
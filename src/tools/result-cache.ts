@@ -0,0 +1,240 @@
+/**
+ * Opt-in on-disk cache for read-only tool results
+ * Enabled with QUARRI_CACHE=1. Entries live in ~/.quarri/cache, keyed by
+ * user, database, environment, normalized SQL and the remaining tool arguments.
+ * Each cacheable tool has its own TTL (overridable with
+ * QUARRI_CACHE_TTL_<BACKEND_TOOL_NAME> in seconds). Any successful mutating
+ * tool call clears the cache for its database.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { QUARRI_DIR, ensureQuarriDir, loadCredentials } from '../auth/token-store.js';
+
+const CACHE_DIR = path.join(QUARRI_DIR, 'cache');
+
+// Default TTLs (ms) for tools whose results may be cached
+const CACHE_TTLS: Record<string, number> = {
+  quarri_execute_sql: 5 * 60 * 1000,
+  quarri_query_model_data: 5 * 60 * 1000,
+  quarri_get_query_context: 15 * 60 * 1000,
+  quarri_get_schema: 15 * 60 * 1000,
+  quarri_get_metrics: 15 * 60 * 1000,
+  quarri_get_relationships: 15 * 60 * 1000,
+};
+
+interface CacheEntry {
+  tool: string;
+  database: string;
+  environment: string;
+  sql?: string;
+  createdAt: string;
+  expiresAt: string;
+  result: Record<string, unknown>;
+}
+
+export interface CacheEntrySummary {
+  key: string;
+  tool: string;
+  database: string;
+  environment: string;
+  sql?: string;
+  created_at: string;
+  expires_at: string;
+  expired: boolean;
+  bytes: number;
+}
+
+/**
+ * Whether caching is turned on (QUARRI_CACHE)
+ */
+export function isCacheEnabled(): boolean {
+  return ['1', 'true', 'yes', 'on'].includes((process.env.QUARRI_CACHE ?? '').toLowerCase());
+}
+
+/**
+ * Get the TTL in ms for a tool, or undefined if its results are not cached
+ */
+export function getCacheTtl(tool: string, backendToolName: string): number | undefined {
+  const defaultTtl = CACHE_TTLS[tool];
+  if (defaultTtl === undefined) {
+    return undefined;
+  }
+  const override = Number(process.env[`QUARRI_CACHE_TTL_${backendToolName.toUpperCase()}`]);
+  return Number.isFinite(override) && override >= 0 ? override * 1000 : defaultTtl;
+}
+
+/**
+ * Normalize SQL so formatting differences share a cache entry
+ */
+function normalizeSql(sql: string): string {
+  return sql.trim().replace(/;+\s*$/, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Serialize a value with sorted object keys
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Split tool arguments into the parts of the cache key
+ */
+function describeCall(tool: string, database: string, args: Record<string, unknown>) {
+  const { sql, environment, ...rest } = args;
+  return {
+    tool,
+    database,
+    environment: typeof environment === 'string' && environment ? environment : 'production',
+    sql: typeof sql === 'string' ? normalizeSql(sql) : undefined,
+    args: rest,
+  };
+}
+
+/**
+ * Cache key for a call. The signed-in user is part of it: the backend may
+ * filter rows per user, so one user's results must not be served to another.
+ */
+function cacheKey(tool: string, database: string, args: Record<string, unknown>): string {
+  const user = loadCredentials()?.email?.toLowerCase() ?? '';
+  return createHash('sha256').update(stableStringify({ ...describeCall(tool, database, args), user })).digest('hex');
+}
+
+function entryPath(key: string): string {
+  return path.join(CACHE_DIR, `${key}.json`);
+}
+
+/**
+ * Read all cache entries with their keys, skipping unreadable files
+ */
+function readEntries(): Array<{ key: string; entry: CacheEntry; bytes: number }> {
+  if (!fs.existsSync(CACHE_DIR)) {
+    return [];
+  }
+
+  const entries: Array<{ key: string; entry: CacheEntry; bytes: number }> = [];
+  for (const file of fs.readdirSync(CACHE_DIR)) {
+    if (!file.endsWith('.json')) {
+      continue;
+    }
+    try {
+      const content = fs.readFileSync(path.join(CACHE_DIR, file), 'utf-8');
+      entries.push({ key: file.slice(0, -5), entry: JSON.parse(content) as CacheEntry, bytes: content.length });
+    } catch {
+      // Ignore partially written or corrupt entries
+    }
+  }
+  return entries;
+}
+
+/**
+ * Look up a cached result. Returns null on a miss or an expired entry.
+ */
+export function readCachedResult(
+  tool: string,
+  database: string,
+  args: Record<string, unknown>
+): { result: Record<string, unknown>; createdAt: string } | null {
+  const file = entryPath(cacheKey(tool, database, args));
+  try {
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    const entry = JSON.parse(fs.readFileSync(file, 'utf-8')) as CacheEntry;
+    if (new Date(entry.expiresAt) < new Date()) {
+      fs.unlinkSync(file);
+      return null;
+    }
+    return { result: entry.result, createdAt: entry.createdAt };
+  } catch (error) {
+    console.error('Failed to read cached result:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a successful tool result
+ */
+export function writeCachedResult(
+  tool: string,
+  database: string,
+  args: Record<string, unknown>,
+  result: Record<string, unknown>,
+  ttl: number
+): void {
+  const call = describeCall(tool, database, args);
+  const now = Date.now();
+  const entry: CacheEntry = {
+    tool,
+    database,
+    environment: call.environment,
+    sql: call.sql,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttl).toISOString(),
+    result,
+  };
+
+  try {
+    ensureQuarriDir();
+    if (!fs.existsSync(CACHE_DIR)) {
+      fs.mkdirSync(CACHE_DIR, { mode: 0o700 });
+    }
+    fs.writeFileSync(entryPath(cacheKey(tool, database, args)), JSON.stringify(entry), { mode: 0o600 });
+  } catch (error) {
+    console.error('Failed to write cached result:', error);
+  }
+}
+
+/**
+ * Remove cache entries, optionally only for one database and/or tool.
+ * Returns the number of entries removed.
+ */
+export function clearCache(filter: { database?: string; tool?: string } = {}): number {
+  let removed = 0;
+  for (const { key, entry } of readEntries()) {
+    if ((filter.database && entry.database !== filter.database) || (filter.tool && entry.tool !== filter.tool)) {
+      continue;
+    }
+    try {
+      fs.unlinkSync(entryPath(key));
+      removed++;
+    } catch (error) {
+      console.error(`Failed to remove cache entry ${key}:`, error);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Describe cache entries, optionally only for one database and/or tool
+ */
+export function listCacheEntries(filter: { database?: string; tool?: string } = {}): CacheEntrySummary[] {
+  const now = new Date();
+  return readEntries()
+    .filter(({ entry }) =>
+      (!filter.database || entry.database === filter.database) && (!filter.tool || entry.tool === filter.tool))
+    .map(({ key, entry, bytes }) => ({
+      key,
+      tool: entry.tool,
+      database: entry.database,
+      environment: entry.environment,
+      sql: entry.sql,
+      created_at: entry.createdAt,
+      expires_at: entry.expiresAt,
+      expired: new Date(entry.expiresAt) < now,
+      bytes,
+    }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
@@ -0,0 +1,165 @@
+/**
+ * Paged query results
+ * Query results are capped at one page (the call's limit, bounded by
+ * QUARRI_MAX_RESULT_ROWS). When more rows exist, the response carries a
+ * next_cursor; the server remembers the originating SQL for each cursor so
+ * later pages re-run the same query at the next offset. Cursors belong to the
+ * conversation that created them.
+ */
+
+import { randomUUID } from 'crypto';
+
+export const PAGED_QUERY_TOOLS = new Set<string>(['quarri_execute_sql', 'quarri_query_model_data']);
+
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_MAX_RESULT_ROWS = 1000;
+const MAX_CURSORS = 200; // oldest cursors are forgotten first
+
+interface QueryCursor {
+  tool: string;
+  database: string;
+  conversationId: string;
+  sql: string;
+  environment?: string;
+  offset: number;
+  pageSize: number;
+}
+
+export interface PageRequest {
+  // Arguments to send to the backend tool
+  args: Record<string, unknown>;
+  sql: string;
+  environment?: string;
+  offset: number;
+  pageSize: number;
+}
+
+const cursors = new Map<string, QueryCursor>();
+
+/**
+ * Maximum rows kept from one query (QUARRI_MAX_RESULT_ROWS)
+ */
+export function getMaxResultRows(): number {
+  const value = Number.parseInt(process.env.QUARRI_MAX_RESULT_ROWS ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_RESULT_ROWS;
+}
+
+/**
+ * Wrap a query so the backend returns one page of it
+ */
+export function buildPageSql(sql: string, offset: number, limit: number): string {
+  const inner = sql.trim().replace(/;+\s*$/, '');
+  return `SELECT * FROM (${inner}) AS quarri_page LIMIT ${limit} OFFSET ${offset}`;
+}
+
+/**
+ * Resolve the page a query tool call asks for, from its sql or a cursor.
+ * One extra row is requested so the caller can tell whether more exist.
+ */
+export function resolvePageRequest(
+  tool: string,
+  database: string,
+  conversationId: string,
+  args: Record<string, unknown>
+): PageRequest | { error: string } {
+  const { cursor: cursorId, offset: requestedOffset, ...rest } = args as {
+    cursor?: string;
+    offset?: number;
+    sql?: string;
+    limit?: number;
+    environment?: string;
+  };
+  const requestedLimit = typeof rest.limit === 'number' && rest.limit > 0 ? rest.limit : undefined;
+
+  if (cursorId && requestedOffset !== undefined) {
+    return { error: 'Use either cursor or offset, not both.' };
+  }
+
+  let sql: string;
+  let environment: string | undefined;
+  let offset = 0;
+  let pageSize: number;
+
+  if (cursorId) {
+    const cursor = cursors.get(cursorId);
+    if (!cursor || cursor.tool !== tool || cursor.database !== database
+      || cursor.conversationId !== conversationId) {
+      return { error: `Unknown or expired cursor '${cursorId}'. Run the query again without a cursor.` };
+    }
+    ({ sql, environment, offset } = cursor);
+    pageSize = requestedLimit ?? cursor.pageSize;
+  } else {
+    if (typeof rest.sql !== 'string' || !rest.sql.trim()) {
+      return { error: 'Provide sql, or a cursor from a previous result.' };
+    }
+    sql = rest.sql;
+    environment = rest.environment;
+    offset = Math.max(0, Math.floor(requestedOffset ?? 0));
+    pageSize = requestedLimit ?? DEFAULT_PAGE_SIZE;
+  }
+
+  pageSize = Math.min(pageSize, getMaxResultRows());
+  return {
+    args: {
+      ...rest,
+      sql: offset > 0 ? buildPageSql(sql, offset, pageSize + 1) : sql,
+      limit: pageSize + 1,
+      ...(environment && { environment }),
+    },
+    sql,
+    environment,
+    offset,
+    pageSize,
+  };
+}
+
+/**
+ * Add paging fields to a query result: trims the probe row and issues a
+ * next_cursor when more rows exist
+ */
+export function finishPage(
+  tool: string,
+  database: string,
+  conversationId: string,
+  page: PageRequest,
+  result: Record<string, unknown>
+): Record<string, unknown> {
+  if (!Array.isArray(result.rows)) {
+    return result;
+  }
+
+  const rows = result.rows as Record<string, unknown>[];
+  const hasMore = rows.length > page.pageSize || result.truncated === true;
+  const pageRows = rows.slice(0, page.pageSize);
+  const paged: Record<string, unknown> = {
+    ...result,
+    rows: pageRows,
+    row_count: pageRows.length,
+    offset: page.offset,
+    truncated: hasMore,
+  };
+
+  if (hasMore) {
+    const cursorId = randomUUID();
+    cursors.set(cursorId, {
+      tool,
+      database,
+      conversationId,
+      sql: page.sql,
+      environment: page.environment,
+      offset: page.offset + pageRows.length,
+      pageSize: page.pageSize,
+    });
+    if (cursors.size > MAX_CURSORS) {
+      cursors.delete(cursors.keys().next().value as string);
+    }
+    paged.next_cursor = cursorId;
+
+    // Without ORDER BY the database may return rows in a different order per page
+    if (!/\border\s+by\b/i.test(page.sql)) {
+      paged.paging_warning = 'The query has no ORDER BY, so rows may repeat or be skipped across pages. Add ORDER BY for stable paging.';
+    }
+  }
+
+  return paged;
+}
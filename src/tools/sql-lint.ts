@@ -0,0 +1,504 @@
+/**
+ * Local SQL checks for quarri_execute_sql
+ * A small tokenizer pass that catches the mistakes the backend would reject
+ * anyway, before the request is sent: statements other than SELECT, reads
+ * from tables other than quarri.schema / quarri.bridge, and (once
+ * quarri_get_schema or quarri_get_query_context has been called for the
+ * database) unknown columns, with the closest column names as suggestions.
+ * Disable with QUARRI_SQL_LINT=0.
+ */
+
+import { parseDefinitionSet } from './definition-diff.js';
+
+const QUARRI_TABLES = ['schema', 'bridge'];
+
+// Tools whose results carry the quarri.schema columns
+const SCHEMA_TOOLS = new Set(['quarri_get_schema', 'quarri_get_query_context']);
+
+// Statement keywords that change data or the database, rejected anywhere
+const WRITE_KEYWORDS = new Set([
+  'insert', 'update', 'delete', 'merge', 'create', 'drop', 'alter', 'truncate', 'grant', 'revoke',
+]);
+
+// Keywords that start a query
+const QUERY_KEYWORDS = new Set(['select', 'with', 'from']);
+
+// Words that are never column references
+const SQL_KEYWORDS = new Set([
+  'select', 'from', 'where', 'group', 'by', 'order', 'having', 'limit', 'offset', 'as', 'and', 'or',
+  'not', 'in', 'is', 'null', 'like', 'ilike', 'glob', 'similar', 'escape', 'between', 'case', 'when',
+  'then', 'else', 'end', 'distinct', 'on', 'join', 'left', 'right', 'inner', 'outer', 'full', 'cross',
+  'natural', 'semi', 'anti', 'asof', 'positional', 'lateral', 'using', 'union', 'all', 'intersect',
+  'except', 'exclude', 'replace', 'with', 'recursive', 'materialized', 'asc', 'desc', 'nulls', 'first',
+  'last', 'true', 'false', 'interval', 'cast', 'try_cast', 'over', 'partition', 'rows', 'range',
+  'groups', 'unbounded', 'preceding', 'following', 'current', 'row', 'filter', 'qualify', 'window',
+  'exists', 'any', 'some', 'collate', 'values', 'fetch', 'next', 'only', 'top', 'ties', 'pivot',
+  'unpivot', 'sample', 'tablesample', 'cube', 'rollup', 'grouping', 'sets', 'within', 'array', 'struct',
+  'map', 'date', 'time', 'timestamp', 'timestamptz', 'year', 'quarter', 'month', 'week', 'day', 'hour',
+  'minute', 'second', 'millisecond', 'microsecond', 'epoch', 'dow', 'doy', 'current_date',
+  'current_time', 'current_timestamp', 'localtime', 'localtimestamp', 'div', 'mod', 'at', 'zone',
+  'both', 'leading', 'trailing', 'for', 'placing',
+]);
+
+// Keywords after which a comma-separated list of tables follows
+const TABLE_KEYWORDS = new Set(['from', 'join']);
+
+// Keywords that end a FROM list
+const CLAUSE_KEYWORDS = new Set([
+  'where', 'group', 'order', 'having', 'limit', 'offset', 'qualify', 'window', 'union', 'intersect',
+  'except', 'on', 'using', 'join', 'left', 'right', 'inner', 'outer', 'full', 'cross', 'natural',
+  'semi', 'anti', 'asof', 'positional', 'lateral', 'sample', 'tablesample', 'pivot', 'unpivot',
+]);
+
+const MAX_SUGGESTIONS = 3;
+
+type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'parameter' | 'symbol';
+
+interface Token {
+  type: TokenType;
+  // Lower-cased for words, unquoted for quoted identifiers
+  value: string;
+}
+
+// database -> environment -> known column names, keyed by lower-case name
+const schemaColumns = new Map<string, Map<string, Map<string, string>>>();
+
+/**
+ * Whether local SQL checks are enabled (on unless QUARRI_SQL_LINT is off)
+ */
+export function isSqlLintEnabled(): boolean {
+  const value = process.env.QUARRI_SQL_LINT?.trim().toLowerCase();
+  return !value || !['0', 'false', 'no', 'off'].includes(value);
+}
+
+/**
+ * Run the checks for a tool call that sends SQL to quarri_execute_sql, either
+ * directly, as a batch step or page by page for an export. Other tools, and
+ * calls while the checks are disabled, pass.
+ */
+export function lintToolCall(toolName: string, databaseName: string, args: Record<string, unknown>): string[] {
+  if (toolName !== 'quarri_execute_sql' || typeof args.sql !== 'string' || !isSqlLintEnabled()) {
+    return [];
+  }
+  const environment = typeof args.environment === 'string' ? args.environment : undefined;
+  return lintQuerySql(args.sql, databaseName, environment);
+}
+
+/**
+ * Remember the columns from a successful quarri_get_schema or
+ * quarri_get_query_context result. Other tools are ignored.
+ */
+export function rememberSchemaColumns(
+  toolName: string,
+  databaseName: string,
+  args: Record<string, unknown>,
+  result: Record<string, unknown>
+): void {
+  if (!SCHEMA_TOOLS.has(toolName) || typeof args.table_filter === 'string') {
+    return;
+  }
+  // get_query_context nests the schema result under "schema"
+  const schema = result.schema;
+  const payload = typeof schema === 'object' && schema !== null && !Array.isArray(schema) && 'tables' in schema
+    ? schema
+    : result;
+
+  const columns = new Map<string, string>();
+  for (const table of Object.values(parseDefinitionSet(payload).columns)) {
+    for (const column of Object.keys(table)) {
+      columns.set(column.toLowerCase(), column);
+    }
+  }
+  if (columns.size === 0) {
+    return;
+  }
+
+  const environment = typeof args.environment === 'string' && args.environment ? args.environment : 'production';
+  const environments = schemaColumns.get(databaseName) ?? new Map<string, Map<string, string>>();
+  environments.set(environment, columns);
+  schemaColumns.set(databaseName, environments);
+}
+
+/**
+ * Drop remembered columns once a database's model may have changed
+ */
+export function forgetSchemaColumns(databaseName: string): void {
+  schemaColumns.delete(databaseName);
+}
+
+/**
+ * Split SQL into tokens, dropping whitespace and comments
+ */
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    const rest = sql.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (rest.startsWith('--')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+    } else if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === '\'' || char === '"') {
+      // Doubled quotes escape the quote character
+      let end = i + 1;
+      let value = '';
+      while (end < sql.length) {
+        if (sql[end] === char && sql[end + 1] === char) {
+          value += char;
+          end += 2;
+        } else if (sql[end] === char) {
+          break;
+        } else {
+          value += sql[end++];
+        }
+      }
+      tokens.push({ type: char === '"' ? 'quoted' : 'string', value });
+      i = end + 1;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+      const match = /^[0-9._]*(e[+-]?[0-9]+)?/i.exec(rest);
+      tokens.push({ type: 'number', value: match?.[0] ?? char });
+      i += match?.[0].length || 1;
+    } else if (/^\$[A-Za-z0-9_]+/.test(rest)) {
+      // Prepared statement parameters: $1, $name
+      const match = /^\$[A-Za-z0-9_]+/.exec(rest);
+      tokens.push({ type: 'parameter', value: match?.[0] ?? char });
+      i += match?.[0].length || 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(rest);
+      const word = match?.[0] ?? char;
+      tokens.push({ type: 'word', value: word.toLowerCase() });
+      i += word.length;
+    } else {
+      const symbol = ['::', '->', '<=', '>=', '<>', '!=', '||'].find((s) => rest.startsWith(s)) ?? char;
+      tokens.push({ type: 'symbol', value: symbol });
+      i += symbol.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Split tokens into statements on top-level semicolons
+ */
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [[]];
+  for (const token of tokens) {
+    if (token.type === 'symbol' && token.value === ';') {
+      statements.push([]);
+    } else {
+      statements[statements.length - 1].push(token);
+    }
+  }
+  return statements.filter((statement) => statement.length > 0);
+}
+
+function isWord(token: Token | undefined, ...words: string[]): boolean {
+  return token?.type === 'word' && (words.length === 0 || words.includes(token.value));
+}
+
+function isSymbol(token: Token | undefined, symbol: string): boolean {
+  return token?.type === 'symbol' && token.value === symbol;
+}
+
+function isIdentifier(token: Token | undefined): boolean {
+  return token?.type === 'quoted' || (token?.type === 'word' && !SQL_KEYWORDS.has(token.value));
+}
+
+/**
+ * Read a dotted name (a.b.c) starting at index
+ */
+function readName(tokens: Token[], index: number): { parts: string[]; next: number } {
+  const parts = [tokens[index].value];
+  let next = index + 1;
+  while (isSymbol(tokens[next], '.') && (isIdentifier(tokens[next + 1]) || isWord(tokens[next + 1]))) {
+    parts.push(tokens[next + 1].value);
+    next += 2;
+  }
+  return { parts, next };
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Known columns closest to an unknown name
+ */
+function suggestColumns(name: string, columns: Map<string, string>): string[] {
+  const target = name.toLowerCase();
+  const limit = Math.max(2, Math.floor(target.length / 3));
+  return [...columns.entries()]
+    .map(([key, column]) => ({
+      column,
+      // A name contained in a column (or vice versa) counts as close
+      distance: key.includes(target) || target.includes(key) ? 1 : editDistance(target, key),
+    }))
+    .filter((candidate) => candidate.distance <= limit)
+    .sort((a, b) => a.distance - b.distance || a.column.localeCompare(b.column))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((candidate) => candidate.column);
+}
+
+/**
+ * Tables a query may read: quarri.schema / quarri.bridge, and in an
+ * environment also its own copies (dev_quarri.schema)
+ */
+function allowedTables(environment?: string): Set<string> {
+  const schemas = environment && environment !== 'production'
+    ? ['quarri', `${environment.toLowerCase()}_quarri`]
+    : ['quarri'];
+  return new Set(schemas.flatMap((schema) => QUARRI_TABLES.map((table) => `${schema}.${table}`)));
+}
+
+/**
+ * Check one statement's table references. Returns the problems found, the
+ * names that refer to quarri tables (tables and their aliases) and every
+ * other name defined in the statement (CTEs, subquery and column aliases).
+ */
+function checkTables(
+  tokens: Token[],
+  allowed: Set<string>
+): { problems: string[]; quarriNames: Set<string>; definedNames: Set<string> } {
+  const problems: string[] = [];
+  const quarriNames = new Set<string>(['schema', 'bridge']);
+  const definedNames = new Set<string>();
+
+  // CTE names: WITH name [(columns)] AS (
+  for (let i = 0; i < tokens.length; i++) {
+    if (isIdentifier(tokens[i]) && isWord(tokens[i + 1], 'as') && isSymbol(tokens[i + 2], '(')
+      && (isWord(tokens[i - 1], 'with', 'recursive') || isSymbol(tokens[i - 1], ','))) {
+      definedNames.add(tokens[i].value);
+    }
+    // Names after AS (aliases, cast types) and after OVER / WINDOW
+    if (isWord(tokens[i], 'as', 'over', 'window') && isIdentifier(tokens[i + 1])) {
+      definedNames.add(tokens[i + 1].value);
+    }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isWord(tokens[i]) || !TABLE_KEYWORDS.has(tokens[i].value)) {
+      continue;
+    }
+    // Skip "EXTRACT(x FROM y)", "TRIM(... FROM ...)" style uses of FROM
+    if (tokens[i].value === 'from' && !isTableFrom(tokens, i)) {
+      continue;
+    }
+
+    let index = i + 1;
+    while (index < tokens.length) {
+      // LATERAL only marks the subquery or function after it as correlated
+      if (isWord(tokens[index], 'lateral')) {
+        index++;
+      }
+      const token = tokens[index];
+      if (isSymbol(token, '(')) {
+        // Subquery or VALUES list; its alias (if any) is picked up by the AS scan
+        index = skipParentheses(tokens, index);
+        if (isIdentifier(tokens[index]) && !CLAUSE_KEYWORDS.has(tokens[index].value)) {
+          definedNames.add(tokens[index].value);
+          index++;
+        }
+      } else if (isIdentifier(token) || isWord(token)) {
+        const { parts, next } = readName(tokens, index);
+        const name = parts.join('.');
+        index = next;
+        if (isSymbol(tokens[index], '(')) {
+          problems.push(`Table function ${name}(...) is not allowed; read from quarri.schema`);
+          index = skipParentheses(tokens, index);
+        } else if (definedNames.has(name) && parts.length === 1) {
+          // A CTE
+        } else if (allowed.has(name)) {
+          quarriNames.add(name);
+          quarriNames.add(parts[parts.length - 1]);
+        } else {
+          problems.push(`Table '${name}' cannot be queried; read from quarri.schema (or quarri.bridge)`);
+        }
+
+        // Optional alias: [AS] alias
+        const aliasIndex = isWord(tokens[index], 'as') ? index + 1 : index;
+        if (isIdentifier(tokens[aliasIndex]) && !CLAUSE_KEYWORDS.has(tokens[aliasIndex].value)) {
+          if (allowed.has(name)) {
+            quarriNames.add(tokens[aliasIndex].value);
+          } else {
+            definedNames.add(tokens[aliasIndex].value);
+          }
+          index = aliasIndex + 1;
+        }
+      } else {
+        break;
+      }
+
+      if (!isSymbol(tokens[index], ',')) {
+        break;
+      }
+      index++;
+    }
+  }
+
+  return { problems, quarriNames, definedNames };
+}
+
+/**
+ * Whether a FROM at index introduces tables rather than an argument inside a
+ * function call such as EXTRACT(year FROM d)
+ */
+function isTableFrom(tokens: Token[], index: number): boolean {
+  let depth = 0;
+  for (let i = index - 1; i >= 0; i--) {
+    if (isSymbol(tokens[i], ')')) {
+      depth++;
+    } else if (isSymbol(tokens[i], '(')) {
+      if (depth === 0) {
+        // Inside parentheses: a table FROM only in a subquery
+        return isWord(tokens[i + 1], 'select') || (isWord(tokens[i + 1], 'from') && i + 1 === index);
+      }
+      depth--;
+    } else if (depth === 0 && isWord(tokens[i], 'select', 'from')) {
+      return true;
+    }
+  }
+  return true;
+}
+
+/**
+ * Index just past the parenthesis group opening at index
+ */
+function skipParentheses(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (isSymbol(tokens[i], '(')) {
+      depth++;
+    } else if (isSymbol(tokens[i], ')') && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Check one statement's column references against the known columns
+ */
+function checkColumns(
+  tokens: Token[],
+  columns: Map<string, string>,
+  quarriNames: Set<string>,
+  definedNames: Set<string>
+): string[] {
+  const problems: string[] = [];
+  const reported = new Set<string>();
+  // Lambda parameters and implicit aliases
+  const localNames = new Set<string>();
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!isIdentifier(token)) {
+      continue;
+    }
+    const previous = tokens[i - 1];
+
+    // Table references (and their aliases) were checked already
+    if (isWord(previous) && TABLE_KEYWORDS.has(previous.value)) {
+      i = readName(tokens, i).next - 1;
+      continue;
+    }
+    // Lambda parameters: x -> x + 1
+    if (isSymbol(tokens[i + 1], '->')) {
+      localNames.add(token.value);
+      continue;
+    }
+    // Cast types (x::DOUBLE), aliases (AS x) and member access (x.y)
+    if (isSymbol(previous, '::') || isSymbol(previous, '.') || isWord(previous, 'as', 'over', 'window')) {
+      continue;
+    }
+    // Implicit aliases follow the end of an expression: sum(x) total, amount amt
+    if (isSymbol(previous, ')') || previous?.type === 'string' || previous?.type === 'number' || isIdentifier(previous)) {
+      localNames.add(token.value);
+      continue;
+    }
+
+    const { parts, next } = readName(tokens, i);
+    i = next - 1;
+    // Function calls
+    if (isSymbol(tokens[next], '(')) {
+      continue;
+    }
+
+    // alias.column, schema.column and quarri.schema.column
+    let column: string;
+    if (parts.length === 1) {
+      column = parts[0];
+    } else if (quarriNames.has(parts[parts.length - 2])) {
+      column = parts[parts.length - 1];
+    } else if (quarriNames.has(parts[0])) {
+      // alias.struct_column.field
+      column = parts[1];
+    } else {
+      continue;
+    }
+
+    const key = column.toLowerCase();
+    if (columns.has(key) || definedNames.has(column) || quarriNames.has(column) || localNames.has(column)
+      || reported.has(key)) {
+      continue;
+    }
+    reported.add(key);
+    const suggestions = suggestColumns(column, columns);
+    problems.push(`Unknown column '${column}' in quarri.schema`
+      + (suggestions.length > 0 ? `. Did you mean ${suggestions.map((s) => `'${s}'`).join(', ')}?` : ''));
+  }
+
+  return problems;
+}
+
+/**
+ * Check a quarri_execute_sql query. Returns human-readable problems (empty
+ * when the query looks fine).
+ */
+export function lintQuerySql(sql: string, databaseName: string, environment?: string): string[] {
+  const statements = splitStatements(tokenize(sql));
+  if (statements.length === 0) {
+    return ['The query is empty'];
+  }
+
+  const problems: string[] = [];
+  const columns = schemaColumns.get(databaseName)?.get(environment || 'production');
+  const allowed = allowedTables(environment);
+  for (const [index, statement] of statements.entries()) {
+    const label = statements.length > 1 ? `Statement ${index + 1}: ` : '';
+    const first = statement.find((token) => !isSymbol(token, '('));
+    const write = statement.find((token) => isWord(token) && WRITE_KEYWORDS.has(token.value));
+    if (!first || first.type !== 'word' || !QUERY_KEYWORDS.has(first.value) || write) {
+      problems.push(`${label}Only SELECT queries are allowed (found ${(write ?? first)?.value.toUpperCase() || 'no SELECT'})`);
+      continue;
+    }
+
+    const tables = checkTables(statement, allowed);
+    problems.push(...tables.problems.map((problem) => `${label}${problem}`));
+    if (columns && tables.problems.length === 0) {
+      problems.push(...checkColumns(statement, columns, tables.quarriNames, tables.definedNames)
+        .map((problem) => `${label}${problem}`));
+    }
+  }
+  return problems;
+}
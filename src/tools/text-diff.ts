@@ -0,0 +1,99 @@
+/**
+ * Line-based unified diff
+ * Small LCS diff for view definitions and similar short texts, rendered in the
+ * familiar unified format (---/+++ headers, @@ hunks, 3 lines of context).
+ */
+
+const CONTEXT_LINES = 3;
+// Above this many lines per side, fall back to a whole-text replacement
+const MAX_DIFF_LINES = 2000;
+
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+  // 1-based line numbers in the old and new text
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * Diff two texts line by line using the longest common subsequence
+ */
+function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText ? oldText.split('\n') : [];
+  const b = newText ? newText.split('\n') : [];
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text, i) => ({ op: '-' as const, text, oldLine: i + 1, newLine: 0 })),
+      ...b.map((text, i) => ({ op: '+' as const, text, oldLine: a.length, newLine: i + 1 })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i], oldLine: ++i, newLine: ++j });
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: '-', text: a[i], oldLine: ++i, newLine: j });
+    } else {
+      lines.push({ op: '+', text: b[j], oldLine: i, newLine: ++j });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Render a unified diff between two texts. Returns an empty string when they
+ * are identical.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const lines = diffLines(oldText, newText);
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change and the end of its hunk (changes closer than 2x context merge)
+    const firstChange = lines.findIndex((line, i) => i >= index && line.op !== ' ');
+    if (firstChange === -1) {
+      break;
+    }
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    let end = firstChange;
+    for (let i = firstChange; i < lines.length; i++) {
+      if (lines[i].op !== ' ') {
+        end = i;
+      } else if (i - end > CONTEXT_LINES * 2) {
+        break;
+      }
+    }
+    end = Math.min(lines.length - 1, end + CONTEXT_LINES);
+
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter((line) => line.op !== '+').length;
+    const newCount = hunk.filter((line) => line.op !== '-').length;
+    // An empty side is numbered by the line before it, as in diff -u
+    const oldStart = (hunk.find((line) => line.op !== '+') ?? hunk[0]).oldLine;
+    const newStart = (hunk.find((line) => line.op !== '-') ?? hunk[0]).newLine;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map((line) => `${line.op}${line.text}`));
+    index = end + 1;
+  }
+
+  return output.join('\n');
+}
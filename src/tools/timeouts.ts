@@ -0,0 +1,36 @@
+/**
+ * Per-tool request timeouts
+ * Resolution order: QUARRI_TIMEOUT_<BACKEND_TOOL_NAME> (seconds), then the
+ * tool definition's timeout, then QUARRI_TOOL_TIMEOUT (seconds), then the
+ * client default.
+ */
+
+import { ToolDefinition } from './definitions.js';
+
+/**
+ * Read a positive number of seconds from the environment as milliseconds
+ */
+function envSeconds(name: string): number | undefined {
+  const seconds = Number(process.env[name]);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Get the environment variable that overrides a tool's timeout
+ */
+export function getTimeoutEnvName(backendToolName: string): string {
+  return `QUARRI_TIMEOUT_${backendToolName.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Resolve the request timeout for a tool call.
+ * Returns undefined to use the client default.
+ */
+export function getToolTimeout(
+  tool: ToolDefinition | undefined,
+  backendToolName: string
+): number | undefined {
+  return envSeconds(getTimeoutEnvName(backendToolName))
+    ?? tool?.timeout
+    ?? envSeconds('QUARRI_TOOL_TIMEOUT');
+}
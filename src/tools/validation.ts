@@ -0,0 +1,111 @@
+/**
+ * Local validation of tool arguments against each tool's inputSchema
+ * Catches missing required fields, wrong types and invalid enum values before
+ * a call is forwarded to the backend
+ */
+
+import { ToolDefinition, ToolParameter } from './definitions.js';
+
+/**
+ * Describe the JSON type of a value the way JSON Schema names it
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Prefix a type name with its article ("an integer", "a string")
+ */
+function withArticle(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Check a value against a JSON Schema type name
+ */
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      // Unknown schema types are left to the backend
+      return true;
+  }
+}
+
+/**
+ * Validate a single parameter value, returning an error message or null
+ */
+function validateParameter(field: string, value: unknown, param: ToolParameter): string | null {
+  if (!matchesType(value, param.type)) {
+    return `'${field}' must be ${withArticle(param.type)}, got ${describeType(value)}`;
+  }
+
+  if (param.enum && !param.enum.includes(value as string)) {
+    return `'${field}' must be one of ${param.enum.map((v) => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}`;
+  }
+
+  if (param.type === 'array' && param.items?.type) {
+    const itemType = param.items.type;
+    const badIndex = (value as unknown[]).findIndex((item) => !matchesType(item, itemType));
+    if (badIndex !== -1) {
+      const item = (value as unknown[])[badIndex];
+      return `'${field}[${badIndex}]' must be ${withArticle(itemType)}, got ${describeType(item)}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate tool arguments against the tool's inputSchema.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateToolArguments(
+  tool: ToolDefinition,
+  args: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+  const { properties, required } = tool.inputSchema;
+
+  for (const field of required) {
+    if (args[field] === undefined || args[field] === null) {
+      const param = properties[field];
+      const hint = param ? ` (${param.type}): ${param.description}` : '';
+      errors.push(`Missing required field '${field}'${hint}`);
+    }
+  }
+
+  for (const [field, value] of Object.entries(args)) {
+    const param = properties[field];
+    if (!param || value === undefined || value === null) {
+      continue;
+    }
+    const error = validateParameter(field, value, param);
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Format validation errors as a model-friendly tool error message
+ */
+export function formatValidationErrors(toolName: string, errors: string[]): string {
+  return `Invalid arguments for ${toolName}:\n${errors.map((e) => `- ${e}`).join('\n')}\n\nFix the arguments and call ${toolName} again.`;
+}
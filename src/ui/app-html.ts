@@ -0,0 +1,352 @@
+/**
+ * MCP App HTML for Quarri UI resources
+ * Builds the self-contained HTML documents served for ui://quarri/* URIs
+ *
+ * The embedded script speaks the MCP Apps postMessage protocol directly
+ * (ui/initialize, ui/notifications/tool-result) so no bundler or SDK is
+ * needed inside the sandboxed iframe.
+ */
+
+import { UIResource, PLOTLY_CDN_URL } from './resources.js';
+
+const APP_PROTOCOL_VERSION = '2026-01-26';
+
+const APP_STYLES = `
+  :root { color-scheme: light dark; --fg: #1f2328; --muted: #656d76; --bg: #ffffff; --border: #d0d7de; --accent: #5b3df5; --row: #f6f8fa; }
+  :root.dark { --fg: #e6edf3; --muted: #8d96a0; --bg: #0d1117; --border: #30363d; --accent: #a594ff; --row: #161b22; }
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 12px; font: 13px/1.45 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: var(--fg); background: var(--bg); }
+  h1 { font-size: 14px; margin: 0 0 8px; }
+  .muted { color: var(--muted); }
+  .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; }
+  input[type=search] { flex: 1; padding: 4px 8px; border: 1px solid var(--border); border-radius: 6px; background: var(--bg); color: var(--fg); }
+  button { padding: 2px 10px; border: 1px solid var(--border); border-radius: 6px; background: var(--row); color: var(--fg); cursor: pointer; }
+  button:disabled { opacity: 0.5; cursor: default; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid var(--border); padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { position: sticky; top: 0; background: var(--bg); cursor: pointer; user-select: none; white-space: nowrap; }
+  tr:nth-child(even) td { background: var(--row); }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .badge { display: inline-block; padding: 0 6px; border-radius: 10px; border: 1px solid var(--border); font-size: 11px; }
+  .level-error, .level-critical { color: #d1242f; }
+  .level-warning, .level-warn { color: #bf8700; }
+  details { border: 1px solid var(--border); border-radius: 6px; margin-bottom: 6px; padding: 4px 8px; }
+  summary { cursor: pointer; font-weight: 600; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 12px; margin: 0; }
+  dt { color: var(--muted); }
+  dd { margin: 0; }
+  pre { margin: 0; padding: 8px; overflow: auto; border: 1px solid var(--border); border-radius: 6px; background: var(--row); font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace; }
+  #chart { width: 100%; min-height: 360px; }
+`;
+
+// Client-side renderer. Plain ES5-style JS so it can live inside a template literal.
+const APP_SCRIPT = `
+(function () {
+  var root = document.getElementById('app');
+  var nextId = 1;
+  var pending = {};
+
+  function send(message) {
+    message.jsonrpc = '2.0';
+    window.parent.postMessage(message, '*');
+  }
+
+  function request(method, params) {
+    var id = nextId++;
+    send({ id: id, method: method, params: params });
+    return new Promise(function (resolve, reject) {
+      pending[id] = { resolve: resolve, reject: reject };
+    });
+  }
+
+  function esc(value) {
+    return String(value === null || value === undefined ? '' : value)
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  function cell(value) {
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return value;
+  }
+
+  function applyTheme(context) {
+    if (context && context.theme) {
+      document.documentElement.classList.toggle('dark', context.theme === 'dark');
+    }
+  }
+
+  function reportSize() {
+    send({ method: 'ui/notifications/size-changed', params: { width: document.body.scrollWidth, height: document.body.scrollHeight } });
+  }
+
+  // Sortable, filterable, paginated table over an array of records
+  function renderRecords(title, rows, columns, pageSize) {
+    columns = columns && columns.length ? columns : (rows.length ? Object.keys(rows[0]) : []);
+    pageSize = pageSize || 50;
+    var state = { sortKey: null, sortDir: 1, page: 0, filter: '' };
+
+    function view() {
+      var filtered = rows;
+      if (state.filter) {
+        var needle = state.filter.toLowerCase();
+        filtered = rows.filter(function (row) {
+          return columns.some(function (c) { return String(cell(row[c])).toLowerCase().indexOf(needle) !== -1; });
+        });
+      }
+      if (state.sortKey !== null) {
+        var key = state.sortKey;
+        filtered = filtered.slice().sort(function (a, b) {
+          var x = a[key], y = b[key];
+          if (typeof x === 'number' && typeof y === 'number') return (x - y) * state.sortDir;
+          return String(cell(x)).localeCompare(String(cell(y))) * state.sortDir;
+        });
+      }
+      var pages = Math.max(1, Math.ceil(filtered.length / pageSize));
+      state.page = Math.min(state.page, pages - 1);
+      var slice = filtered.slice(state.page * pageSize, (state.page + 1) * pageSize);
+
+      var html = '<h1>' + esc(title) + ' <span class="muted">(' + filtered.length + ' of ' + rows.length + ')</span></h1>';
+      html += '<div class="toolbar"><input type="search" placeholder="Filter..." value="' + esc(state.filter) + '">';
+      if (pages > 1) {
+        html += '<button data-page="-1"' + (state.page === 0 ? ' disabled' : '') + '>Prev</button>';
+        html += '<span class="muted">' + (state.page + 1) + ' / ' + pages + '</span>';
+        html += '<button data-page="1"' + (state.page === pages - 1 ? ' disabled' : '') + '>Next</button>';
+      }
+      html += '</div><table><thead><tr>';
+      columns.forEach(function (c) {
+        var arrow = state.sortKey === c ? (state.sortDir === 1 ? ' &#9650;' : ' &#9660;') : '';
+        html += '<th data-key="' + esc(c) + '">' + esc(c) + arrow + '</th>';
+      });
+      html += '</tr></thead><tbody>';
+      slice.forEach(function (row) {
+        html += '<tr>';
+        columns.forEach(function (c) {
+          var value = row[c];
+          html += '<td' + (typeof value === 'number' ? ' class="num"' : '') + '>' + esc(cell(value)) + '</td>';
+        });
+        html += '</tr>';
+      });
+      html += '</tbody></table>';
+      root.innerHTML = html;
+
+      var input = root.querySelector('input[type=search]');
+      input.addEventListener('input', function () {
+        state.filter = input.value;
+        state.page = 0;
+        view();
+        var again = root.querySelector('input[type=search]');
+        again.focus();
+        again.setSelectionRange(again.value.length, again.value.length);
+      });
+      Array.prototype.forEach.call(root.querySelectorAll('th'), function (th) {
+        th.addEventListener('click', function () {
+          var key = th.getAttribute('data-key');
+          state.sortDir = state.sortKey === key ? -state.sortDir : 1;
+          state.sortKey = key;
+          view();
+        });
+      });
+      Array.prototype.forEach.call(root.querySelectorAll('button[data-page]'), function (button) {
+        button.addEventListener('click', function () {
+          state.page += Number(button.getAttribute('data-page'));
+          view();
+        });
+      });
+      reportSize();
+    }
+
+    view();
+  }
+
+  function renderFields(title, payload) {
+    var html = '<h1>' + esc(title) + '</h1><dl>';
+    Object.keys(payload).forEach(function (key) {
+      if (key === 'type' || key === 'sql_template') return;
+      var value = payload[key];
+      if (Array.isArray(value)) value = value.map(cell).join(', ');
+      html += '<dt>' + esc(key) + '</dt><dd>' + esc(cell(value)) + '</dd>';
+    });
+    html += '</dl>';
+    if (payload.sql_template) {
+      html += '<h1 style="margin-top:12px">SQL template</h1><pre>' + esc(payload.sql_template) + '</pre>';
+    }
+    root.innerHTML = html;
+  }
+
+  function renderSchema(tables) {
+    var html = '<h1>Schema <span class="muted">(' + tables.length + ' tables)</span></h1>';
+    html += '<div class="toolbar"><input type="search" placeholder="Filter columns..."></div><div id="tables"></div>';
+    root.innerHTML = html;
+    var container = document.getElementById('tables');
+
+    function view(filter) {
+      var needle = (filter || '').toLowerCase();
+      var out = '';
+      tables.forEach(function (table) {
+        var columns = (table.columns || []).filter(function (c) {
+          return !needle || table.name.toLowerCase().indexOf(needle) !== -1 || c.name.toLowerCase().indexOf(needle) !== -1;
+        });
+        if (!columns.length && needle) return;
+        out += '<details' + (needle || tables.length === 1 ? ' open' : '') + '><summary>' + esc(table.name) +
+          ' <span class="muted">(' + columns.length + ' columns)</span></summary><table><tbody>';
+        columns.forEach(function (c) {
+          out += '<tr><td>' + esc(c.name) + '</td><td class="muted">' + esc(c.type) + '</td></tr>';
+        });
+        out += '</tbody></table></details>';
+      });
+      container.innerHTML = out || '<p class="muted">No matching columns.</p>';
+      reportSize();
+    }
+
+    root.querySelector('input[type=search]').addEventListener('input', function (event) {
+      view(event.target.value);
+    });
+    view('');
+  }
+
+  function renderLogs(logs) {
+    var html = '<h1>Logs <span class="muted">(' + logs.length + ' entries)</span></h1><pre>';
+    logs.forEach(function (entry) {
+      if (typeof entry === 'string') {
+        html += esc(entry) + '\\n';
+        return;
+      }
+      var level = String(entry.level || '').toLowerCase();
+      html += '<span class="muted">' + esc(entry.timestamp) + '</span> <span class="level-' + esc(level) + '">' +
+        esc(entry.level) + '</span> ' + esc(entry.message) + '\\n';
+    });
+    root.innerHTML = html + '</pre>';
+  }
+
+  function renderCode(payload) {
+    root.innerHTML = '<h1>Code <span class="badge">' + esc(payload.language) + '</span></h1><pre><code>' + esc(payload.code) + '</code></pre>';
+  }
+
+  function renderChart(payload) {
+    root.innerHTML = (payload.title ? '<h1>' + esc(payload.title) + '</h1>' : '') + '<div id="chart"></div>';
+    function draw() {
+      var layout = Object.assign({ margin: { t: 24, r: 16, b: 48, l: 56 }, autosize: true }, payload.plotly.layout || {});
+      window.Plotly.newPlot('chart', payload.plotly.data, layout, { responsive: true, displaylogo: false }).then(reportSize);
+    }
+    if (window.Plotly) return draw();
+    var script = document.createElement('script');
+    script.src = '${PLOTLY_CDN_URL}';
+    script.onload = draw;
+    script.onerror = function () { root.innerHTML = '<p class="muted">Could not load Plotly.</p>'; reportSize(); };
+    document.head.appendChild(script);
+  }
+
+  var LIST_VIEWS = {
+    'search-results': ['Search results', 'results'],
+    'metrics-list': ['Metrics', 'metrics'],
+    'prompts-list': ['Agent prompts', 'prompts'],
+    'rules-list': ['Rules', 'rules'],
+    'columns-list': ['Searchable columns', 'columns'],
+    'teams-list': ['Teams', 'teams'],
+    'team-filters': ['Team filters', 'filters'],
+    'team-restrictions': ['Column restrictions', 'restrictions'],
+    'sources-list': ['Extraction sources', 'sources'],
+    'tables-list': ['Tables', 'tables'],
+    'activity-list': ['Activity', 'activities']
+  };
+
+  function render(payload) {
+    if (!payload || typeof payload !== 'object') {
+      root.innerHTML = '<p class="muted">No data to display.</p>';
+      return reportSize();
+    }
+    var list = LIST_VIEWS[payload.type];
+    if (list) {
+      renderRecords(list[0], payload[list[1]] || [], null, 50);
+    } else if (payload.type === 'data-table') {
+      renderRecords('Query results', payload.rows || [], (payload.columns || []).map(function (c) { return c.key; }), payload.pageSize);
+    } else if (payload.type === 'schema-explorer') {
+      renderSchema(payload.tables || []);
+    } else if (payload.type === 'chart') {
+      renderChart(payload);
+    } else if (payload.type === 'logs-view') {
+      renderLogs(payload.logs || []);
+    } else if (payload.type === 'code-view') {
+      renderCode(payload);
+    } else if (payload.type === 'metric-detail') {
+      renderFields(payload.name || 'Metric', payload);
+    } else if (payload.type === 'auth-status') {
+      renderFields('Quarri authentication', payload);
+    } else if (payload.type === 'trial-status') {
+      renderFields('Quarri trial', payload);
+    } else {
+      root.innerHTML = '<pre>' + esc(JSON.stringify(payload, null, 2)) + '</pre>';
+    }
+    reportSize();
+  }
+
+  function handleToolResult(result) {
+    if (result.isError) {
+      root.innerHTML = '<pre>' + esc((result.content || []).map(function (c) { return c.text || ''; }).join('\\n')) + '</pre>';
+      return reportSize();
+    }
+    if (result.structuredContent) return render(result.structuredContent);
+    // Fall back to JSON text content for hosts that drop structuredContent
+    var text = (result.content || []).filter(function (c) { return c.type === 'text'; }).map(function (c) { return c.text; }).join('');
+    try {
+      render(JSON.parse(text));
+    } catch (e) {
+      root.innerHTML = '<pre>' + esc(text) + '</pre>';
+      reportSize();
+    }
+  }
+
+  window.addEventListener('message', function (event) {
+    var message = event.data;
+    if (!message || message.jsonrpc !== '2.0') return;
+    if (message.id !== undefined && pending[message.id] && !message.method) {
+      var entry = pending[message.id];
+      delete pending[message.id];
+      if (message.error) entry.reject(message.error); else entry.resolve(message.result);
+      return;
+    }
+    if (message.method === 'ui/notifications/tool-result') {
+      handleToolResult(message.params || {});
+    } else if (message.method === 'ui/notifications/tool-cancelled') {
+      root.innerHTML = '<p class="muted">Tool call cancelled.</p>';
+      reportSize();
+    } else if (message.method === 'ui/notifications/host-context-changed') {
+      applyTheme(message.params);
+    } else if (message.method === 'ui/resource-teardown' && message.id !== undefined) {
+      send({ id: message.id, result: {} });
+    }
+  });
+
+  request('ui/initialize', {
+    appInfo: { name: '__APP_NAME__', version: '1.0.0' },
+    appCapabilities: {},
+    protocolVersion: '${APP_PROTOCOL_VERSION}'
+  }).then(function (result) {
+    applyTheme(result && result.hostContext);
+    send({ method: 'ui/notifications/initialized', params: {} });
+  }).catch(function () {
+    root.innerHTML = '<p class="muted">This host does not support MCP Apps.</p>';
+  });
+})();
+`;
+
+/**
+ * Render the HTML document for a UI resource
+ */
+export function renderAppHtml(resource: UIResource): string {
+  const appName = resource.uri.replace('ui://', '').replace(/\//g, '-');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${resource.name}</title>
+<style>${APP_STYLES}</style>
+</head>
+<body>
+<div id="app"><p class="muted">Waiting for ${resource.name.toLowerCase()} data...</p></div>
+<script>${APP_SCRIPT.replace('__APP_NAME__', appName)}</script>
+</body>
+</html>`;
+}
@@ -1,52 +1,75 @@
 /**
  * MCP UI Resources for Quarri
  * Defines interactive UI components rendered in Claude conversations
+ *
+ * Each resource is served as a self-contained MCP App (text/html;profile=mcp-app).
+ * Tools link to their app via _meta.ui.resourceUri and pass the view payload
+ * built by buildToolView() as structuredContent.
  */
 
+// Same value as RESOURCE_MIME_TYPE in @modelcontextprotocol/ext-apps, which is
+// ESM-only and can't be required from this CommonJS build on Node 18
+export const RESOURCE_MIME_TYPE = 'text/html;profile=mcp-app';
+
+export interface UIResourceMeta {
+  ui: {
+    csp?: {
+      connectDomains?: string[];
+      resourceDomains?: string[];
+    };
+    prefersBorder?: boolean;
+  };
+}
+
 export interface UIResource {
   uri: string;
   name: string;
   description: string;
   mimeType: string;
+  _meta?: UIResourceMeta;
 }
 
+// Plotly is loaded from its CDN inside the chart app
+export const PLOTLY_CDN_URL = 'https://cdn.plot.ly/plotly-2.35.2.min.js';
+
 export const UI_RESOURCES: UIResource[] = [
   // Data resources
   {
     uri: 'ui://quarri/data-table',
     name: 'Data Table',
     description: 'Interactive data table for SQL results',
-    mimeType: 'application/vnd.quarri.data-table+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/chart',
     name: 'Chart',
     description: 'Interactive Plotly chart',
-    mimeType: 'application/vnd.quarri.chart+json',
+    mimeType: RESOURCE_MIME_TYPE,
+    _meta: { ui: { csp: { resourceDomains: ['https://cdn.plot.ly'] } } },
   },
   {
     uri: 'ui://quarri/schema-explorer',
     name: 'Schema Explorer',
     description: 'Database schema visualization',
-    mimeType: 'application/vnd.quarri.schema+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/search-results',
     name: 'Search Results',
     description: 'Value search results',
-    mimeType: 'application/vnd.quarri.search-results+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/metrics-list',
     name: 'Metrics List',
     description: 'Defined metrics with status',
-    mimeType: 'application/vnd.quarri.metrics-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/metric-detail',
     name: 'Metric Detail',
     description: 'Single metric details',
-    mimeType: 'application/vnd.quarri.metric-detail+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
 
   // Session resources
@@ -54,13 +77,13 @@ export const UI_RESOURCES: UIResource[] = [
     uri: 'ui://quarri/auth-status',
     name: 'Auth Status',
     description: 'Authentication status',
-    mimeType: 'application/vnd.quarri.auth-status+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/trial-status',
     name: 'Trial Status',
     description: 'Trial account status',
-    mimeType: 'application/vnd.quarri.trial-status+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
 
   // Config resources
@@ -68,19 +91,19 @@ export const UI_RESOURCES: UIResource[] = [
     uri: 'ui://quarri/prompts-list',
     name: 'Prompts List',
     description: 'Agent prompts',
-    mimeType: 'application/vnd.quarri.prompts-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/rules-list',
     name: 'Rules List',
     description: 'Query generation rules',
-    mimeType: 'application/vnd.quarri.rules-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/columns-list',
     name: 'Columns List',
     description: 'Searchable columns',
-    mimeType: 'application/vnd.quarri.columns-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
 
   // Team resources
@@ -88,19 +111,19 @@ export const UI_RESOURCES: UIResource[] = [
     uri: 'ui://quarri/teams-list',
     name: 'Teams List',
     description: 'Organization teams',
-    mimeType: 'application/vnd.quarri.teams-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/team-filters',
     name: 'Team Filters',
     description: 'Row-level security filters',
-    mimeType: 'application/vnd.quarri.team-filters+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/team-restrictions',
     name: 'Team Restrictions',
     description: 'Column restrictions',
-    mimeType: 'application/vnd.quarri.team-restrictions+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
 
   // Extraction resources
@@ -108,19 +131,19 @@ export const UI_RESOURCES: UIResource[] = [
     uri: 'ui://quarri/sources-list',
     name: 'Sources List',
     description: 'Data extraction sources',
-    mimeType: 'application/vnd.quarri.sources-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/discovered-tables',
     name: 'Discovered Tables',
     description: 'Tables in data source',
-    mimeType: 'application/vnd.quarri.tables-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/raw-tables',
     name: 'Raw Tables',
     description: 'Unprocessed tables',
-    mimeType: 'application/vnd.quarri.tables-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
 
   // Debug resources
@@ -128,19 +151,19 @@ export const UI_RESOURCES: UIResource[] = [
     uri: 'ui://quarri/logs-view',
     name: 'Logs View',
     description: 'Log entries',
-    mimeType: 'application/vnd.quarri.logs-view+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/activity-list',
     name: 'Activity List',
     description: 'REPL activity timeline',
-    mimeType: 'application/vnd.quarri.activity-list+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
   {
     uri: 'ui://quarri/code-view',
     name: 'Code View',
     description: 'Source code display',
-    mimeType: 'application/vnd.quarri.code-view+json',
+    mimeType: RESOURCE_MIME_TYPE,
   },
 ];
 
@@ -148,6 +171,7 @@ export const UI_RESOURCES: UIResource[] = [
 export const TOOL_UI_MAPPING: Record<string, string> = {
   // Data tools
   quarri_execute_sql: 'ui://quarri/data-table',
+  quarri_query_model_data: 'ui://quarri/data-table',
   quarri_get_schema: 'ui://quarri/schema-explorer',
   quarri_search_values: 'ui://quarri/search-results',
   quarri_get_metrics: 'ui://quarri/metrics-list',
@@ -187,9 +211,122 @@ export const TOOL_UI_MAPPING: Record<string, string> = {
 export function getToolUIResource(toolName: string): UIResource | undefined {
   const uri = TOOL_UI_MAPPING[toolName];
   if (!uri) return undefined;
+  return getUIResource(uri);
+}
+
+// Get UI resource info by URI
+export function getUIResource(uri: string): UIResource | undefined {
   return UI_RESOURCES.find((r) => r.uri === uri);
 }
 
+// Return the first array-valued field of a tool result, if any
+function listField<T>(
+  result: Record<string, unknown>,
+  ...keys: string[]
+): T[] | null {
+  for (const key of keys) {
+    if (Array.isArray(result[key])) {
+      return result[key] as T[];
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the view payload passed to a tool's UI app as structuredContent.
+ * Returns null when the tool has no app or the result doesn't match its shape.
+ */
+export function buildToolView(
+  toolName: string,
+  result: Record<string, unknown>
+): Record<string, unknown> | null {
+  const uri = TOOL_UI_MAPPING[toolName];
+  if (!uri) return null;
+
+  switch (uri) {
+    case 'ui://quarri/data-table': {
+      const rows = listField<Record<string, unknown>>(result, 'rows', 'data');
+      if (!rows) return null;
+      const columns = Array.isArray(result.columns)
+        ? (result.columns as string[])
+        : rows.length > 0 ? Object.keys(rows[0]) : [];
+      return renderDataTable(rows, columns);
+    }
+    case 'ui://quarri/chart': {
+      const chart = result.chart as { data?: object[]; layout?: object; title?: string } | undefined;
+      if (!chart || !Array.isArray(chart.data)) return null;
+      return renderChart({ data: chart.data, layout: chart.layout, title: chart.title });
+    }
+    case 'ui://quarri/schema-explorer': {
+      const tables = listField<{ name: string; columns: Array<{ name: string; type: string }> }>(result, 'tables');
+      return tables ? renderSchemaExplorer(tables) : null;
+    }
+    case 'ui://quarri/search-results': {
+      const results = listField<{ value: string; column: string; table: string; score?: number }>(result, 'results', 'values', 'matches');
+      return results ? renderSearchResults(results) : null;
+    }
+    case 'ui://quarri/metrics-list': {
+      const metrics = listField<{ id: number; name: string; description: string; status: string }>(result, 'metrics', 'results');
+      return metrics ? renderMetricsList(metrics) : null;
+    }
+    case 'ui://quarri/metric-detail': {
+      const metric = (result.metric ?? result) as { id: number; name: string; description: string; sql_template: string; status: string };
+      return metric.name ? renderMetricDetail(metric) : null;
+    }
+    case 'ui://quarri/auth-status':
+      return renderAuthStatus(result as { authenticated: boolean });
+    case 'ui://quarri/trial-status':
+      return renderTrialStatus(result as { is_trial: boolean });
+    case 'ui://quarri/prompts-list': {
+      const prompts = listField<{ agent_name: string; prompt: string }>(result, 'prompts');
+      return prompts ? renderPromptsList(prompts) : null;
+    }
+    case 'ui://quarri/rules-list': {
+      const rules = listField<{ id: number; rule_text: string; category?: string }>(result, 'rules');
+      return rules ? renderRulesList(rules) : null;
+    }
+    case 'ui://quarri/columns-list': {
+      const columns = listField<{ table_name: string; column_name: string; value_count?: number }>(result, 'columns', 'searchable_columns');
+      return columns ? renderColumnsList(columns) : null;
+    }
+    case 'ui://quarri/teams-list': {
+      const teams = listField<{ id: number; name: string; member_count?: number }>(result, 'teams');
+      return teams ? renderTeamsList(teams) : null;
+    }
+    case 'ui://quarri/team-filters': {
+      const filters = listField<{ table_name: string; filter_expression: string }>(result, 'filters');
+      return filters ? renderTeamFilters(filters) : null;
+    }
+    case 'ui://quarri/team-restrictions': {
+      const restrictions = listField<{ table_name: string; hidden_columns: string[] }>(result, 'restrictions');
+      return restrictions ? renderTeamRestrictions(restrictions) : null;
+    }
+    case 'ui://quarri/sources-list': {
+      const sources = listField<{ name: string; type: string; status?: string; last_run?: string }>(result, 'sources');
+      return sources ? renderSourcesList(sources) : null;
+    }
+    case 'ui://quarri/discovered-tables':
+    case 'ui://quarri/raw-tables': {
+      const tables = listField<{ name: string; row_count?: number; columns?: number }>(result, 'tables');
+      return tables ? renderTablesList(tables) : null;
+    }
+    case 'ui://quarri/logs-view': {
+      const logs = listField<{ timestamp: string; level: string; message: string }>(result, 'logs', 'entries', 'lines');
+      return logs ? renderLogsView(logs) : null;
+    }
+    case 'ui://quarri/activity-list': {
+      const activities = listField<{ timestamp: string; action: string; details?: string }>(result, 'activities', 'activity');
+      return activities ? renderActivityList(activities) : null;
+    }
+    case 'ui://quarri/code-view':
+      return typeof result.code === 'string'
+        ? renderCodeView(result.code, typeof result.language === 'string' ? result.language : undefined)
+        : null;
+    default:
+      return null;
+  }
+}
+
 // Render functions for each UI type
 
 export function renderDataTable(
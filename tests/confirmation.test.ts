@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// The pending file lives under ~/.quarri, so point HOME somewhere disposable
+// before the module resolves its paths
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'quarri-confirm-'));
+const originalHome = process.env.HOME;
+let confirmation: typeof import('../src/tools/confirmation.js');
+
+const args = { environment_name: 'dev' };
+
+beforeAll(async () => {
+  process.env.HOME = home;
+  vi.resetModules();
+  confirmation = await import('../src/tools/confirmation.js');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(path.join(home, '.quarri'), { recursive: true, force: true });
+});
+
+afterAll(() => {
+  process.env.HOME = originalHome;
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+describe('confirmation', () => {
+  it('only lets an approved call through', () => {
+    const code = confirmation.requestConfirmation('quarri_delete_environment', 'shop', args);
+
+    expect(confirmation.getPendingConfirmation(code.toLowerCase())?.summary).toContain("Delete environment 'dev'");
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'shop', args)).toBe(false);
+
+    expect(confirmation.approveConfirmation(code)).toBe(true);
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'shop', args)).toBe(true);
+  });
+
+  it('uses an approval once', () => {
+    const code = confirmation.requestConfirmation('quarri_delete_environment', 'shop', args);
+    confirmation.approveConfirmation(code);
+
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'shop', args)).toBe(true);
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'shop', args)).toBe(false);
+    expect(confirmation.getPendingConfirmation(code)).toBeUndefined();
+  });
+
+  it('only matches the exact tool, database and arguments', () => {
+    const code = confirmation.requestConfirmation('quarri_delete_environment', 'shop', args);
+    confirmation.approveConfirmation(code);
+
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'shop', { environment_name: 'prod' })).toBe(false);
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'other', args)).toBe(false);
+    expect(confirmation.consumeApprovedConfirmation('quarri_promote_environment', 'shop', args)).toBe(false);
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'shop', args)).toBe(true);
+  });
+
+  it('expires pending and approved calls', () => {
+    vi.useFakeTimers();
+    const code = confirmation.requestConfirmation('quarri_delete_environment', 'shop', args);
+
+    vi.advanceTimersByTime(confirmation.CONFIRMATION_TTL_MINUTES * 60 * 1000 + 1);
+    expect(confirmation.approveConfirmation(code)).toBe(false);
+
+    const second = confirmation.requestConfirmation('quarri_delete_environment', 'shop', args);
+    confirmation.approveConfirmation(second);
+    vi.advanceTimersByTime(confirmation.CONFIRMATION_TTL_MINUTES * 60 * 1000 + 1);
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'shop', args)).toBe(false);
+  });
+
+  it('drops approvals for a declined call', () => {
+    const code = confirmation.requestConfirmation('quarri_delete_environment', 'shop', args);
+    confirmation.approveConfirmation(code);
+
+    confirmation.discardConfirmations('quarri_delete_environment', 'shop', args);
+    expect(confirmation.consumeApprovedConfirmation('quarri_delete_environment', 'shop', args)).toBe(false);
+  });
+});
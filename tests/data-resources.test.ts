@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  RESOURCE_INVALIDATIONS,
+  buildDataResourceUri,
+  getInvalidatedResourceUris,
+  parseDataResourceUri,
+} from '../src/resources/data-resources.js';
+import { isMutatingToolName } from '../src/tools/definitions.js';
+
+describe('parseDataResourceUri', () => {
+  it('parses database resources and templates', () => {
+    expect(parseDataResourceUri(buildDataResourceUri('my shop', 'schema'))).toEqual({
+      database: 'my shop',
+      kind: 'schema',
+      tool: 'quarri_get_schema',
+      args: {},
+    });
+    expect(parseDataResourceUri('quarri://shop/tables/order%20lines')).toMatchObject({
+      kind: 'tables',
+      args: { table_filter: 'order lines' },
+    });
+    expect(parseDataResourceUri('quarri://shop/metrics/42')).toMatchObject({
+      kind: 'metrics',
+      tool: 'quarri_get_metric_detail',
+      args: { metric_id: 42 },
+    });
+  });
+
+  it('rejects unknown kinds, malformed escapes and non-integer metric ids', () => {
+    expect(parseDataResourceUri('quarri://shop/widgets')).toBeNull();
+    expect(parseDataResourceUri('quarri://shop//schema')).toBeNull();
+    expect(parseDataResourceUri('quarri://sh%E0op/schema')).toBeNull();
+    expect(parseDataResourceUri('quarri://shop/tables/%')).toBeNull();
+    expect(parseDataResourceUri('quarri://shop/metrics/abc')).toBeNull();
+    expect(parseDataResourceUri('quarri://shop/metrics/1.5')).toBeNull();
+    expect(parseDataResourceUri('ui://quarri/table')).toBeNull();
+  });
+});
+
+describe('getInvalidatedResourceUris', () => {
+  const subscribed = [
+    'quarri://shop/schema',
+    'quarri://shop/tables/orders',
+    'quarri://shop/metrics',
+    'quarri://shop/metrics/7',
+    'quarri://shop/rules',
+    'quarri://shop/relationships',
+    'quarri://other/schema',
+    'quarri://sh%E0op/schema',
+  ];
+
+  it('notifies the kinds each tool changes, on its database only', () => {
+    expect(getInvalidatedResourceUris('quarri_execute_ddl', 'shop', subscribed)).toEqual([
+      'quarri://shop/schema',
+      'quarri://shop/tables/orders',
+    ]);
+    expect(getInvalidatedResourceUris('quarri_generate_quarri_schema', 'shop', subscribed)).toEqual([
+      'quarri://shop/schema',
+      'quarri://shop/tables/orders',
+    ]);
+    expect(getInvalidatedResourceUris('quarri_set_relationship', 'shop', subscribed)).toEqual([
+      'quarri://shop/relationships',
+    ]);
+    expect(getInvalidatedResourceUris('quarri_detect_relationships', 'shop', subscribed)).toEqual([
+      'quarri://shop/relationships',
+    ]);
+    expect(getInvalidatedResourceUris('quarri_create_metric', 'shop', subscribed)).toEqual([
+      'quarri://shop/metrics',
+      'quarri://shop/metrics/7',
+    ]);
+    expect(getInvalidatedResourceUris('quarri_delete_rule', 'shop', subscribed)).toEqual(['quarri://shop/rules']);
+  });
+
+  it('ignores read-only tools', () => {
+    expect(getInvalidatedResourceUris('quarri_get_schema', 'shop', subscribed)).toEqual([]);
+  });
+
+  it('only lists mutating tools', () => {
+    for (const name of Object.keys(RESOURCE_INVALIDATIONS)) {
+      expect(isMutatingToolName(name), name).toBe(true);
+    }
+  });
+});
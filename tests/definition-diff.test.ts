@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  countDefinitionChanges,
+  diffDefinitionSets,
+  formatDefinitionDiff,
+  normalizeSchemaReferences,
+  parseDefinitionSet,
+} from '../src/tools/definition-diff.js';
+
+const labels = { before: 'production', after: 'dev' };
+
+describe('parseDefinitionSet', () => {
+  it('reads the relationship shapes the backend uses', () => {
+    const set = parseDefinitionSet({
+      relationships: [
+        { from_table: 'orders', from_column: 'customer_id', to_table: 'customers', to_column: 'id', relationship_type: 'many_to_one' },
+        { source_table: 'items', source_column: 'order_id', target_table: 'orders', target_column: 'id' },
+        { table: 'payments', column: 'order_id', references_table: 'orders', references_column: 'id' },
+        { child_table: 'refunds', child_column: 'payment_id', parent_table: 'payments', parent_column: 'id' },
+        { from: 'visits.customer_id', to: 'customers.id' },
+        { from: { table: 'lines', columns: ['order_id', 'line_no'] }, to: { table: 'items', columns: ['order_id', 'line_no'] } },
+      ],
+    });
+
+    expect(set.relationships).toEqual([
+      'items.order_id → orders.id',
+      'lines.(order_id, line_no) → items.(order_id, line_no)',
+      'orders.customer_id → customers.id (many_to_one)',
+      'payments.order_id → orders.id',
+      'refunds.payment_id → payments.id',
+      'visits.customer_id → customers.id',
+    ]);
+    expect(set.unparsedRelationships).toEqual([]);
+  });
+
+  it('reports relationships it cannot read instead of inventing keys', () => {
+    const set = parseDefinitionSet({
+      relationships: [
+        { lhs: 'orders', rhs: 'customers' },
+        { from_table: 'orders', to_table: 'customers' },
+        42,
+      ],
+    });
+
+    expect(set.relationships).toEqual([]);
+    expect(set.unparsedRelationships).toEqual([
+      '{"lhs":"orders","rhs":"customers"}',
+      '{"from_table":"orders","to_table":"customers"}',
+      '42',
+    ]);
+  });
+
+  it('reads views, primary keys and schema columns', () => {
+    const set = parseDefinitionSet({
+      transformations: [{ name: 'orders', transformation_type: 'staging', sql: 'SELECT 1' }],
+      primary_keys: [{ table: 'orders', columns: 'id, region' }],
+      tables: [{ name: 'orders', columns: [{ name: 'id', type: 'integer' }] }],
+    });
+
+    expect(set.views).toEqual({ 'staging.orders': 'SELECT 1' });
+    expect(set.primaryKeys).toEqual({ orders: ['id', 'region'] });
+    expect(set.columns).toEqual({ orders: { id: 'integer' } });
+  });
+});
+
+describe('normalizeSchemaReferences', () => {
+  it('rewrites environment schema prefixes to production names', () => {
+    const set = normalizeSchemaReferences(parseDefinitionSet({
+      views: { 'dev_staging.orders': 'SELECT * FROM dev_staging.raw JOIN dev_quarri.schema ON true' },
+      relationships: ['dev_main.orders.id → dev_main.customers.id'],
+    }), 'dev');
+
+    expect(set.views).toEqual({ 'staging.orders': 'SELECT * FROM staging.raw JOIN quarri.schema ON true' });
+    expect(set.relationships).toEqual(['main.orders.id → main.customers.id']);
+  });
+
+  it('leaves production and other prefixes alone', () => {
+    const set = parseDefinitionSet({ views: { 'developer_staging.x': 'SELECT 1' } });
+    expect(normalizeSchemaReferences(set, 'production')).toBe(set);
+    expect(normalizeSchemaReferences(set, 'dev').views).toEqual({ 'developer_staging.x': 'SELECT 1' });
+  });
+});
+
+describe('diffDefinitionSets', () => {
+  it('finds added, removed and changed definitions', () => {
+    const before = parseDefinitionSet({
+      views: { 'staging.orders': 'SELECT id\nFROM raw.orders', 'silver.old': 'SELECT 1' },
+      relationships: [{ from_table: 'orders', from_column: 'customer_id', to_table: 'customers', to_column: 'id' }],
+      primary_keys: { orders: ['id'], legacy: ['id'] },
+      schema: { orders: { id: 'integer', amount: 'integer' } },
+    });
+    const after = parseDefinitionSet({
+      views: { 'staging.orders': 'SELECT id, amount\nFROM raw.orders', 'silver.rev': 'SELECT 2' },
+      relationships: [],
+      primary_keys: { orders: ['id', 'region'], customers: ['id'] },
+      schema: { orders: { id: 'integer', amount: 'numeric', currency: 'text' } },
+    });
+
+    const diff = diffDefinitionSets(before, after, labels);
+
+    expect(diff.views.added).toEqual([{ name: 'silver.rev', sql: 'SELECT 2' }]);
+    expect(diff.views.removed).toEqual([{ name: 'silver.old', sql: 'SELECT 1' }]);
+    expect(diff.views.changed[0].diff).toContain('--- production/staging.orders\n+++ dev/staging.orders');
+    expect(diff.relationships).toEqual({ added: [], removed: ['orders.customer_id → customers.id'] });
+    expect(diff.primary_keys).toEqual({
+      added: [{ table: 'customers', columns: ['id'] }],
+      removed: [{ table: 'legacy', columns: ['id'] }],
+      changed: [{ table: 'orders', before: ['id'], after: ['id', 'region'] }],
+    });
+    expect(diff.columns).toEqual({
+      added: [{ table: 'orders', column: 'currency', type: 'text' }],
+      removed: [],
+      changed: [{ table: 'orders', column: 'amount', before: 'integer', after: 'numeric' }],
+    });
+    expect(countDefinitionChanges(diff)).toBe(9);
+  });
+
+  it('lists unreadable relationships without counting them as changes', () => {
+    const before = parseDefinitionSet({ relationships: [{ lhs: 'a' }] });
+    const diff = diffDefinitionSets(before, parseDefinitionSet({}), labels);
+
+    expect(countDefinitionChanges(diff)).toBe(0);
+    expect(diff.unparsed_relationships).toEqual(['production: {"lhs":"a"}']);
+
+    const text = formatDefinitionDiff(diff, 'Environment diff');
+    expect(text).toContain('No differences.');
+    expect(text).toContain('## Unrecognized relationships');
+    expect(text).toContain('? production: {"lhs":"a"}');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  LOCAL_TOOL_NAMES,
+  READ_ONLY_TOOL_NAMES,
+  RECORDING_TOOL_NAMES,
+  TOOL_DEFINITIONS,
+  TOOL_NAME_MAP,
+  isMutatingToolName,
+} from '../src/tools/definitions.js';
+
+describe('tool classification', () => {
+  it('classifies every backend-routed tool exactly once', () => {
+    for (const name of Object.keys(TOOL_NAME_MAP)) {
+      const classes = [
+        READ_ONLY_TOOL_NAMES.has(name),
+        RECORDING_TOOL_NAMES.has(name),
+        isMutatingToolName(name),
+      ].filter(Boolean);
+      expect(classes, name).toHaveLength(1);
+    }
+  });
+
+  it('only lists known backend-routed tools', () => {
+    for (const name of [...READ_ONLY_TOOL_NAMES, ...RECORDING_TOOL_NAMES]) {
+      expect(TOOL_NAME_MAP, name).toHaveProperty(name);
+    }
+  });
+
+  it('routes every definition locally or to the backend', () => {
+    for (const tool of TOOL_DEFINITIONS) {
+      expect(LOCAL_TOOL_NAMES.has(tool.name) || tool.name in TOOL_NAME_MAP, tool.name).toBe(true);
+    }
+  });
+
+  it('treats recording-only tools as non-mutating', () => {
+    expect(isMutatingToolName('quarri_log_analysis_run')).toBe(false);
+    expect(isMutatingToolName('quarri_execute_sql')).toBe(false);
+    expect(isMutatingToolName('quarri_delete_environment')).toBe(true);
+    // Detection writes proposed relationships on the backend
+    expect(isMutatingToolName('quarri_detect_relationships')).toBe(true);
+    expect(isMutatingToolName('quarri_batch')).toBe(false);
+  });
+});
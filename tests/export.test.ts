@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterAll, describe, expect, it } from 'vitest';
+
+import { ExportPage, checkExportQuery, exportQueryResults, inferExportFormat, resolveExportPath } from '../src/tools/export.js';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quarri-export-'));
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Serve the given pages in order, recording the offsets asked for
+ */
+function pages(...served: ExportPage[]): { fetchPage: (offset: number) => Promise<ExportPage>; offsets: number[] } {
+  const offsets: number[] = [];
+  return {
+    offsets,
+    fetchPage: async (offset) => {
+      offsets.push(offset);
+      return served[offsets.length - 1] ?? { success: true, rows: [], hasMore: false };
+    },
+  };
+}
+
+describe('inferExportFormat', () => {
+  it('prefers the format argument, then the extension', () => {
+    expect(inferExportFormat('out.csv', 'parquet')).toBe('parquet');
+    expect(inferExportFormat('out.PQ')).toBe('parquet');
+    expect(inferExportFormat('out.ndjson')).toBe('jsonl');
+    expect(inferExportFormat('out.txt', 'xlsx')).toBe('csv');
+  });
+});
+
+describe('resolveExportPath', () => {
+  it('expands ~ to the home directory', () => {
+    expect(resolveExportPath('~/out.csv')).toBe(path.join(os.homedir(), 'out.csv'));
+  });
+});
+
+describe('checkExportQuery', () => {
+  it('refuses an execute_sql export the SQL checks reject', () => {
+    expect(checkExportQuery('execute_sql', 'shop', 'DELETE FROM raw.orders')).toEqual([
+      'Only SELECT queries are allowed (found DELETE)',
+    ]);
+    expect(checkExportQuery('execute_sql', 'shop', 'SELECT * FROM dev_staging.orders', 'dev')).toEqual([
+      "Table 'dev_staging.orders' cannot be queried; read from quarri.schema (or quarri.bridge)",
+    ]);
+  });
+
+  it('accepts valid queries and leaves query_model_data to the backend', () => {
+    expect(checkExportQuery('execute_sql', 'shop', 'SELECT * FROM dev_quarri.schema', 'dev')).toEqual([]);
+    expect(checkExportQuery('query_model_data', 'shop', 'SELECT * FROM main.orders')).toEqual([]);
+  });
+});
+
+describe('exportQueryResults', () => {
+  it('writes every page to CSV with quoting', async () => {
+    const filePath = path.join(directory, 'orders.csv');
+    const source = pages(
+      { success: true, columns: ['id', 'note'], rows: [{ id: 1, note: 'plain' }, { id: 2, note: 'say "hi", ok' }], hasMore: true },
+      { success: true, rows: [{ id: 3, note: null }], hasMore: false },
+    );
+
+    const result = await exportQueryResults({ filePath, format: 'csv', maxRows: 100, overwrite: false, fetchPage: source.fetchPage });
+
+    expect(result).toMatchObject({ success: true, row_count: 3, truncated: false });
+    expect(source.offsets).toEqual([0, 2]);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('id,note\n1,plain\n2,"say ""hi"", ok"\n3,\n');
+  });
+
+  it('stops at max_rows and marks the export truncated', async () => {
+    const filePath = path.join(directory, 'capped.jsonl');
+    const source = pages({ success: true, rows: [{ id: 1 }, { id: 2 }, { id: 3 }], hasMore: true });
+
+    const result = await exportQueryResults({ filePath, format: 'jsonl', maxRows: 2, overwrite: false, fetchPage: source.fetchPage });
+
+    expect(result).toMatchObject({ success: true, row_count: 2, truncated: true });
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('{"id":1}\n{"id":2}\n');
+  });
+
+  it('refuses to replace an existing file unless asked to', async () => {
+    const filePath = path.join(directory, 'existing.csv');
+    fs.writeFileSync(filePath, 'keep');
+    const page: ExportPage = { success: true, rows: [{ id: 1 }], hasMore: false };
+
+    const refused = await exportQueryResults({ filePath, format: 'csv', maxRows: 10, overwrite: false, fetchPage: pages(page).fetchPage });
+    expect(refused.success).toBe(false);
+    expect(refused.error).toContain('already exists');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('keep');
+
+    const replaced = await exportQueryResults({ filePath, format: 'csv', maxRows: 10, overwrite: true, fetchPage: pages(page).fetchPage });
+    expect(replaced.success).toBe(true);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('id\n1\n');
+  });
+
+  it('passes on a failed page', async () => {
+    const filePath = path.join(directory, 'failed.csv');
+    const result = await exportQueryResults({
+      filePath,
+      format: 'csv',
+      maxRows: 10,
+      overwrite: false,
+      fetchPage: pages({ success: false, error: 'bad sql', rows: [], hasMore: false }).fetchPage,
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'bad sql', row_count: 0 });
+  });
+
+  it('fails a Parquet export on a value that does not fit its column and removes the file', async () => {
+    const filePath = path.join(directory, 'mixed.parquet');
+    const source = pages(
+      { success: true, rows: [{ v: 1 }, { v: 2 }], hasMore: true },
+      { success: true, rows: [{ v: 'N/A' }], hasMore: false },
+    );
+
+    const result = await exportQueryResults({ filePath, format: 'parquet', maxRows: 10, overwrite: false, fetchPage: source.fetchPage });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      'Column \'v\' was typed as number from the first page, but row 3 has "N/A". '
+      + 'Export as csv or jsonl, or CAST the column to VARCHAR in the query.'
+    );
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('writes a Parquet file when every value fits', async () => {
+    const filePath = path.join(directory, 'typed.parquet');
+    const source = pages({ success: true, rows: [{ v: 1, ok: true, name: 'a' }, { v: null, ok: false, name: 'b' }], hasMore: false });
+
+    const result = await exportQueryResults({ filePath, format: 'parquet', maxRows: 10, overwrite: false, fetchPage: source.fetchPage });
+
+    expect(result).toMatchObject({ success: true, row_count: 2 });
+    expect(result.columns).toEqual([
+      { name: 'v', type: 'number' },
+      { name: 'ok', type: 'boolean' },
+      { name: 'name', type: 'string' },
+    ]);
+    expect(fs.readFileSync(filePath).subarray(0, 4).toString()).toBe('PAR1');
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { PageRequest, buildPageSql, finishPage, resolvePageRequest } from '../src/tools/result-pages.js';
+
+const tool = 'quarri_execute_sql';
+
+function rows(count: number): Record<string, unknown>[] {
+  return Array.from({ length: count }, (_, id) => ({ id }));
+}
+
+/**
+ * Resolve a first page and finish it with more rows than fit, returning the cursor
+ */
+function firstPageCursor(sql: string, conversationId = 'conv-1', database = 'shop'): string {
+  const page = resolvePageRequest(tool, database, conversationId, { sql, limit: 10 }) as PageRequest;
+  const result = finishPage(tool, database, conversationId, page, { rows: rows(11) });
+  return result.next_cursor as string;
+}
+
+afterEach(() => {
+  delete process.env.QUARRI_MAX_RESULT_ROWS;
+});
+
+describe('buildPageSql', () => {
+  it('wraps the query and drops trailing semicolons', () => {
+    expect(buildPageSql('  SELECT * FROM quarri.schema ORDER BY id;;  ', 20, 11)).toBe(
+      'SELECT * FROM (SELECT * FROM quarri.schema ORDER BY id) AS quarri_page LIMIT 11 OFFSET 20'
+    );
+  });
+});
+
+describe('resolvePageRequest', () => {
+  it('sends the first page as is with one probe row', () => {
+    expect(resolvePageRequest(tool, 'shop', 'conv-1', { sql: 'SELECT 1', environment: 'dev' })).toEqual({
+      args: { sql: 'SELECT 1', limit: 101, environment: 'dev' },
+      sql: 'SELECT 1',
+      environment: 'dev',
+      offset: 0,
+      pageSize: 100,
+    });
+  });
+
+  it('wraps later pages and caps the page size', () => {
+    process.env.QUARRI_MAX_RESULT_ROWS = '50';
+    const page = resolvePageRequest(tool, 'shop', 'conv-1', { sql: 'SELECT 1', offset: 30, limit: 500 }) as PageRequest;
+    expect(page.pageSize).toBe(50);
+    expect(page.args).toEqual({ sql: buildPageSql('SELECT 1', 30, 51), limit: 51 });
+  });
+
+  it('rejects missing sql and mixed cursor and offset', () => {
+    expect(resolvePageRequest(tool, 'shop', 'conv-1', {})).toEqual({
+      error: 'Provide sql, or a cursor from a previous result.',
+    });
+    expect(resolvePageRequest(tool, 'shop', 'conv-1', { cursor: 'abc', offset: 10 })).toEqual({
+      error: 'Use either cursor or offset, not both.',
+    });
+  });
+});
+
+describe('cursors', () => {
+  it('continue the same query at the next offset', () => {
+    const cursor = firstPageCursor('SELECT id FROM quarri.schema ORDER BY id');
+    const page = resolvePageRequest(tool, 'shop', 'conv-1', { cursor }) as PageRequest;
+
+    expect(page.offset).toBe(10);
+    expect(page.pageSize).toBe(10);
+    expect(page.args.sql).toBe(buildPageSql('SELECT id FROM quarri.schema ORDER BY id', 10, 11));
+  });
+
+  it('only work in the conversation, database and tool that created them', () => {
+    const cursor = firstPageCursor('SELECT id FROM quarri.schema ORDER BY id');
+    const error = { error: `Unknown or expired cursor '${cursor}'. Run the query again without a cursor.` };
+
+    expect(resolvePageRequest(tool, 'shop', 'conv-2', { cursor })).toEqual(error);
+    expect(resolvePageRequest(tool, 'other', 'conv-1', { cursor })).toEqual(error);
+    expect(resolvePageRequest('quarri_query_model_data', 'shop', 'conv-1', { cursor })).toEqual(error);
+    expect(resolvePageRequest(tool, 'shop', 'conv-1', { cursor })).not.toHaveProperty('error');
+  });
+});
+
+describe('finishPage', () => {
+  it('trims the probe row and warns about paging without ORDER BY', () => {
+    const page = resolvePageRequest(tool, 'shop', 'conv-1', { sql: 'SELECT id FROM quarri.schema', limit: 10 }) as PageRequest;
+    const result = finishPage(tool, 'shop', 'conv-1', page, { rows: rows(11) });
+
+    expect(result.rows).toHaveLength(10);
+    expect(result).toMatchObject({ row_count: 10, offset: 0, truncated: true });
+    expect(result.next_cursor).toEqual(expect.any(String));
+    expect(result.paging_warning).toContain('no ORDER BY');
+  });
+
+  it('issues no cursor on the last page', () => {
+    const page = resolvePageRequest(tool, 'shop', 'conv-1', { sql: 'SELECT 1', limit: 10 }) as PageRequest;
+    const result = finishPage(tool, 'shop', 'conv-1', page, { rows: rows(10) });
+
+    expect(result).toMatchObject({ row_count: 10, truncated: false });
+    expect(result).not.toHaveProperty('next_cursor');
+  });
+});
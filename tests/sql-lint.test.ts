@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { forgetSchemaColumns, lintQuerySql, lintToolCall, rememberSchemaColumns } from '../src/tools/sql-lint.js';
+
+const database = 'shop';
+
+beforeEach(() => {
+  forgetSchemaColumns(database);
+  delete process.env.QUARRI_SQL_LINT;
+});
+
+function rememberColumns(environment?: string): void {
+  rememberSchemaColumns(
+    'quarri_get_schema',
+    database,
+    environment ? { environment } : {},
+    { tables: [{ name: 'orders', columns: [{ name: 'order_id' }, { name: 'customer_name' }, { name: 'amount' }, { name: 'order_date' }] }] }
+  );
+}
+
+describe('statement and table checks', () => {
+  it('accepts a plain query against quarri.schema', () => {
+    expect(lintQuerySql('SELECT amount FROM quarri.schema WHERE amount > 0', database)).toEqual([]);
+  });
+
+  it('rejects writes and empty queries', () => {
+    expect(lintQuerySql('  -- nothing\n', database)).toEqual(['The query is empty']);
+    expect(lintQuerySql('DELETE FROM quarri.schema', database)).toEqual([
+      'Only SELECT queries are allowed (found DELETE)',
+    ]);
+    expect(lintQuerySql('SELECT 1; DROP TABLE x', database)).toEqual([
+      'Statement 2: Only SELECT queries are allowed (found DROP)',
+    ]);
+  });
+
+  it('rejects other tables and table functions', () => {
+    expect(lintQuerySql('SELECT * FROM raw.orders', database)).toEqual([
+      "Table 'raw.orders' cannot be queried; read from quarri.schema (or quarri.bridge)",
+    ]);
+    expect(lintQuerySql("SELECT * FROM read_csv('x.csv')", database)).toEqual([
+      'Table function read_csv(...) is not allowed; read from quarri.schema',
+    ]);
+  });
+
+  it("allows an environment's own quarri tables in that environment only", () => {
+    expect(lintQuerySql('SELECT * FROM dev_quarri.schema s JOIN quarri.bridge b ON true', database, 'dev')).toEqual([]);
+    expect(lintQuerySql('SELECT * FROM dev_quarri.schema', database)).toHaveLength(1);
+  });
+
+  it('accepts CTEs, subqueries and LATERAL subqueries', () => {
+    const sql = `
+      WITH recent AS (SELECT * FROM quarri.schema WHERE order_date > DATE '2024-01-01')
+      SELECT r.amount, t.total
+      FROM recent r, LATERAL (SELECT sum(amount) AS total FROM quarri.schema s WHERE s.order_id = r.order_id) t
+      JOIN LATERAL (SELECT 1 AS one) x ON true`;
+    expect(lintQuerySql(sql, database)).toEqual([]);
+  });
+});
+
+describe('column checks', () => {
+  it('only runs once the schema is known', () => {
+    expect(lintQuerySql('SELECT amout FROM quarri.schema', database)).toEqual([]);
+  });
+
+  it('reports unknown columns with suggestions', () => {
+    rememberColumns();
+    expect(lintQuerySql('SELECT amout, customer FROM quarri.schema', database)).toEqual([
+      "Unknown column 'amout' in quarri.schema. Did you mean 'amount'?",
+      "Unknown column 'customer' in quarri.schema. Did you mean 'customer_name'?",
+    ]);
+  });
+
+  it('checks columns against the environment the schema came from', () => {
+    rememberColumns('dev');
+    expect(lintQuerySql('SELECT amout FROM quarri.schema', database)).toEqual([]);
+    expect(lintQuerySql('SELECT amout FROM dev_quarri.schema', database, 'dev')).toHaveLength(1);
+  });
+
+  it('accepts aliases, qualified columns, lambdas, parameters and keyword arguments', () => {
+    rememberColumns();
+    const sql = `
+      SELECT s.amount, quarri.schema.order_id, sum(amount) total,
+        EXTRACT(year FROM order_date) AS yr,
+        TRIM(BOTH ' ' FROM customer_name) AS name,
+        TRIM(LEADING '0' FROM CAST(order_id AS VARCHAR)) AS id_text,
+        SUBSTRING(customer_name FROM 1 FOR 3) AS initials,
+        list_transform([1, 2], x -> x + 1) AS bumped
+      FROM quarri.schema s
+      WHERE amount > $1 AND customer_name = $name
+      GROUP BY ALL
+      ORDER BY total DESC`;
+    expect(lintQuerySql(sql, database)).toEqual([]);
+  });
+
+  it('forgets columns when the model may have changed', () => {
+    rememberColumns();
+    forgetSchemaColumns(database);
+    expect(lintQuerySql('SELECT amout FROM quarri.schema', database)).toEqual([]);
+  });
+});
+
+describe('lintToolCall', () => {
+  it('checks quarri_execute_sql calls in their environment', () => {
+    expect(lintToolCall('quarri_execute_sql', database, { sql: 'DELETE FROM raw.orders' })).toEqual([
+      'Only SELECT queries are allowed (found DELETE)',
+    ]);
+    rememberColumns('dev');
+    expect(lintToolCall('quarri_execute_sql', database, { sql: 'SELECT amout FROM dev_quarri.schema', environment: 'dev' }))
+      .toEqual(["Unknown column 'amout' in quarri.schema. Did you mean 'amount'?"]);
+  });
+
+  it('leaves other tools and disabled checks alone', () => {
+    expect(lintToolCall('quarri_query_model_data', database, { sql: 'DELETE FROM raw.orders' })).toEqual([]);
+    process.env.QUARRI_SQL_LINT = 'off';
+    expect(lintToolCall('quarri_execute_sql', database, { sql: 'DELETE FROM raw.orders' })).toEqual([]);
+  });
+});
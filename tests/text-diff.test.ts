@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { unifiedDiff } from '../src/tools/text-diff.js';
+
+describe('unifiedDiff', () => {
+  it('returns nothing for identical texts', () => {
+    expect(unifiedDiff('SELECT 1', 'SELECT 1', 'a', 'b')).toBe('');
+  });
+
+  it('renders a changed line with context', () => {
+    const before = 'SELECT id, amount\nFROM raw.orders\nWHERE amount > 0';
+    const after = 'SELECT id, amount, currency\nFROM raw.orders\nWHERE amount > 0';
+
+    expect(unifiedDiff(before, after, 'production/staging.orders', 'dev/staging.orders')).toBe([
+      '--- production/staging.orders',
+      '+++ dev/staging.orders',
+      '@@ -1,3 +1,3 @@',
+      '-SELECT id, amount',
+      '+SELECT id, amount, currency',
+      ' FROM raw.orders',
+      ' WHERE amount > 0',
+    ].join('\n'));
+  });
+
+  it('numbers an empty side from the line before it', () => {
+    expect(unifiedDiff('', 'a\nb', 'old', 'new')).toBe('--- old\n+++ new\n@@ -0,0 +1,2 @@\n+a\n+b');
+    expect(unifiedDiff('a\nb', '', 'old', 'new')).toBe('--- old\n+++ new\n@@ -1,2 +0,0 @@\n-a\n-b');
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[17] = 'changed 18';
+
+    const hunks = unifiedDiff(before.join('\n'), after.join('\n'), 'old', 'new')
+      .split('\n')
+      .filter((line) => line.startsWith('@@'));
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+  });
+
+  it('merges changes within twice the context into one hunk', () => {
+    const before = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[2] = 'changed 3';
+    after[8] = 'changed 9';
+
+    const hunks = unifiedDiff(before.join('\n'), after.join('\n'), 'old', 'new')
+      .split('\n')
+      .filter((line) => line.startsWith('@@'));
+    expect(hunks).toEqual(['@@ -1,12 +1,12 @@']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import { ToolDefinition } from '../src/tools/definitions.js';
+import { formatValidationErrors, validateToolArguments } from '../src/tools/validation.js';
+
+const tool: ToolDefinition = {
+  name: 'quarri_example',
+  description: 'Example tool',
+  category: 'query',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sql: { type: 'string', description: 'SQL to run' },
+      limit: { type: 'integer', description: 'Maximum rows' },
+      ratio: { type: 'number', description: 'Sampling ratio' },
+      verbose: { type: 'boolean', description: 'Include details' },
+      format: { type: 'string', description: 'Output format', enum: ['table', 'json'] },
+      tags: { type: 'array', description: 'Tags', items: { type: 'string' } },
+      options: { type: 'object', description: 'Extra options' },
+    },
+    required: ['sql'],
+  },
+};
+
+describe('validateToolArguments', () => {
+  it('accepts valid arguments and ignores unknown or null fields', () => {
+    expect(validateToolArguments(tool, {
+      sql: 'SELECT 1',
+      limit: 10,
+      ratio: 0.5,
+      verbose: true,
+      format: 'json',
+      tags: ['a'],
+      options: {},
+      extra: 'ignored',
+      format_hint: null,
+    })).toEqual([]);
+  });
+
+  it('reports missing required fields with their description', () => {
+    expect(validateToolArguments(tool, {})).toEqual(["Missing required field 'sql' (string): SQL to run"]);
+    expect(validateToolArguments(tool, { sql: null })).toEqual(["Missing required field 'sql' (string): SQL to run"]);
+  });
+
+  it('reports wrong types', () => {
+    expect(validateToolArguments(tool, {
+      sql: 1,
+      limit: 1.5,
+      ratio: Infinity,
+      verbose: 'yes',
+      tags: 'a',
+      options: [],
+    })).toEqual([
+      "'sql' must be a string, got integer",
+      "'limit' must be an integer, got number",
+      "'ratio' must be a number, got number",
+      "'verbose' must be a boolean, got string",
+      "'tags' must be an array, got string",
+      "'options' must be an object, got array",
+    ]);
+  });
+
+  it('reports invalid enum values and array items', () => {
+    expect(validateToolArguments(tool, { sql: 'SELECT 1', format: 'csv', tags: ['a', 2] })).toEqual([
+      '\'format\' must be one of "table", "json", got "csv"',
+      "'tags[1]' must be a string, got integer",
+    ]);
+  });
+});
+
+describe('formatValidationErrors', () => {
+  it('lists each problem and asks for a corrected call', () => {
+    expect(formatValidationErrors('quarri_example', ['a', 'b'])).toBe(
+      'Invalid arguments for quarri_example:\n- a\n- b\n\nFix the arguments and call quarri_example again.'
+    );
+  });
+});